@@ -0,0 +1,62 @@
+/**
+ * Seed word lists
+ * Default English word pools used by GET /api/tests/generate
+ */
+
+INSERT INTO word_lists (name, language, difficulty, words, word_count)
+SELECT name, language, difficulty, words, cardinality(words)
+FROM (
+  VALUES
+    (
+      'english_easy',
+      'english',
+      'easy',
+      ARRAY[
+        'the', 'be', 'of', 'and', 'a', 'to', 'in', 'he', 'have', 'it',
+        'that', 'for', 'they', 'with', 'as', 'not', 'on', 'she', 'at', 'by',
+        'this', 'we', 'you', 'do', 'but', 'from', 'or', 'which', 'one', 'would',
+        'all', 'will', 'there', 'say', 'who', 'make', 'when', 'can', 'more', 'if',
+        'no', 'man', 'out', 'other', 'so', 'what', 'time', 'up', 'go', 'about',
+        'than', 'into', 'could', 'state', 'only', 'new', 'year', 'some', 'take', 'come',
+        'these', 'know', 'see', 'use', 'get', 'like', 'then', 'first', 'any', 'work',
+        'now', 'may', 'such', 'give', 'over', 'think', 'most', 'even', 'find', 'day',
+        'also', 'after', 'way', 'many', 'must', 'look', 'before', 'great', 'back', 'through',
+        'long', 'where', 'much', 'should', 'well', 'people', 'down', 'own', 'just', 'because'
+      ]::TEXT[]
+    ),
+    (
+      'english_normal',
+      'english',
+      'normal',
+      ARRAY[
+        'good', 'same', 'last', 'world', 'school', 'never', 'house', 'still', 'might', 'while',
+        'number', 'part', 'turn', 'real', 'leave', 'system', 'place', 'problem', 'point', 'hand',
+        'small', 'large', 'group', 'begin', 'seem', 'country', 'help', 'talk', 'where', 'again',
+        'general', 'public', 'follow', 'around', 'change', 'light', 'water', 'early', 'order', 'develop',
+        'become', 'different', 'program', 'interest', 'always', 'little', 'possible', 'important', 'between', 'under',
+        'without', 'another', 'against', 'family', 'question', 'moment', 'during', 'market', 'simple', 'course',
+        'company', 'member', 'person', 'reason', 'result', 'service', 'office', 'example', 'nothing', 'although',
+        'history', 'morning', 'student', 'support', 'process', 'social', 'second', 'figure', 'report', 'action',
+        'letter', 'answer', 'travel', 'animal', 'garden', 'winter', 'summer', 'spring', 'window', 'minute',
+        'doctor', 'friend', 'father', 'mother', 'river', 'mountain', 'island', 'station', 'market', 'picture'
+      ]::TEXT[]
+    ),
+    (
+      'english_hard',
+      'english',
+      'hard',
+      ARRAY[
+        'acknowledge', 'ambiguous', 'anomaly', 'articulate', 'benevolent', 'bureaucracy', 'catastrophe', 'circumstance', 'colloquial', 'conscientious',
+        'conspicuous', 'contemporary', 'deteriorate', 'dichotomy', 'discrepancy', 'eloquent', 'embarrass', 'entrepreneur', 'ephemeral', 'exacerbate',
+        'exaggerate', 'facetious', 'fluorescent', 'gregarious', 'harassment', 'hierarchy', 'hypothesis', 'idiosyncrasy', 'immediately', 'inconspicuous',
+        'indispensable', 'infrastructure', 'intermittent', 'juxtaposition', 'kaleidoscope', 'labyrinth', 'liaison', 'maintenance', 'mediterranean', 'millennium',
+        'miscellaneous', 'mischievous', 'necessary', 'negligible', 'nonchalant', 'occasionally', 'occurrence', 'onomatopoeia', 'paradigm', 'parliament',
+        'perseverance', 'phenomenon', 'playwright', 'possession', 'precipitate', 'prejudice', 'pronunciation', 'quintessential', 'questionnaire', 'recommend',
+        'reminiscent', 'rhythm', 'sacrilegious', 'schedule', 'separate', 'silhouette', 'sophisticated', 'spontaneous', 'supersede', 'surveillance',
+        'synchronize', 'threshold', 'tyranny', 'ubiquitous', 'unanimous', 'vacuum', 'vicissitude', 'vulnerable', 'whimsical', 'xylophone',
+        'accommodate', 'bibliography', 'characteristic', 'consequence', 'definitely', 'environment', 'extraordinary', 'government', 'independent', 'knowledgeable',
+        'meticulous', 'occasionally', 'particularly', 'psychology', 'rhetorical', 'significance', 'temperature', 'thoroughly', 'unnecessary', 'zealous'
+      ]::TEXT[]
+    )
+) AS seed(name, language, difficulty, words)
+ON CONFLICT (language, difficulty) DO NOTHING;
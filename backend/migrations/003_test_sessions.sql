@@ -0,0 +1,35 @@
+/**
+ * Test Sessions
+ * Server-issued prompts that a submitted test must reference
+ *
+ * Tables:
+ * - test_sessions: Generated text, config and start time for one attempt
+ */
+
+CREATE TABLE test_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  -- Prompt
+  text TEXT NOT NULL,
+  -- Config
+  mode VARCHAR(20) NOT NULL DEFAULT 'time', -- 'time', 'words'
+  language VARCHAR(20) NOT NULL DEFAULT 'english',
+  difficulty VARCHAR(20) NOT NULL DEFAULT 'normal',
+  test_type VARCHAR(20) NOT NULL DEFAULT 'normal',
+  duration INT, -- seconds, for time mode
+  word_count INT, -- for words mode
+  -- Timestamps
+  started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  expires_at TIMESTAMP NOT NULL,
+  consumed_at TIMESTAMP -- set once a result is submitted
+);
+
+CREATE INDEX idx_test_sessions_user_id ON test_sessions(user_id);
+CREATE INDEX idx_test_sessions_expires_at ON test_sessions(expires_at);
+
+-- Link results to the session they were typed against
+ALTER TABLE typing_tests
+  ADD COLUMN session_id UUID REFERENCES test_sessions(id) ON DELETE SET NULL,
+  ADD COLUMN word_count INT; -- for words mode
+
+CREATE INDEX idx_typing_tests_session_id ON typing_tests(session_id);
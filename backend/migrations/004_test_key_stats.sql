@@ -0,0 +1,21 @@
+/**
+ * Per-key keystroke statistics
+ * Aggregated from input_history when a test is submitted
+ *
+ * Tables:
+ * - test_key_stats: Sample, error and latency totals per key per test
+ */
+
+CREATE TABLE test_key_stats (
+  test_id UUID NOT NULL REFERENCES typing_tests(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  key VARCHAR(8) NOT NULL, -- prompt character, lowercased
+  sample_count INT NOT NULL,
+  error_count INT NOT NULL,
+  latency_total_ms BIGINT NOT NULL DEFAULT 0,
+  latency_count INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (test_id, key)
+);
+
+CREATE INDEX idx_test_key_stats_user_created ON test_key_stats(user_id, created_at);
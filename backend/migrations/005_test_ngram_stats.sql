@@ -0,0 +1,22 @@
+/**
+ * Bigram and trigram keystroke statistics
+ * Aggregated from input_history when a test is submitted
+ *
+ * Tables:
+ * - test_ngram_stats: Sample, error and transition time totals per n-gram per test
+ */
+
+CREATE TABLE test_ngram_stats (
+  test_id UUID NOT NULL REFERENCES typing_tests(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  ngram VARCHAR(16) NOT NULL, -- prompt characters, lowercased
+  n SMALLINT NOT NULL, -- 2 = bigram, 3 = trigram
+  sample_count INT NOT NULL,
+  error_count INT NOT NULL,
+  transition_total_ms BIGINT NOT NULL DEFAULT 0,
+  transition_count INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (test_id, ngram)
+);
+
+CREATE INDEX idx_test_ngram_stats_user_n_created ON test_ngram_stats(user_id, n, created_at);
@@ -0,0 +1,7 @@
+/**
+ * Per-second WPM series
+ * Stored with each test for result charts
+ */
+
+ALTER TABLE typing_tests
+  ADD COLUMN wpm_series JSONB; -- [{ second, wpm, rawWpm, errors }] array
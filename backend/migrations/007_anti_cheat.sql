@@ -0,0 +1,34 @@
+/**
+ * Anti-cheat flags and review queue
+ * Every test stores a risk score; flagged tests wait for admin review
+ *
+ * Tables:
+ * - test_flags: One review record per flagged test
+ */
+
+ALTER TABLE typing_tests
+  ADD COLUMN risk_score SMALLINT NOT NULL DEFAULT 0, -- 0-100
+  ADD COLUMN flag_reasons JSONB, -- ["suspicious_paste", ...] array
+  ADD COLUMN is_flagged BOOLEAN NOT NULL DEFAULT false; -- excluded from leaderboards and personal bests
+
+CREATE INDEX idx_typing_tests_is_flagged ON typing_tests(is_flagged) WHERE is_flagged;
+
+ALTER TABLE users
+  ADD COLUMN is_admin BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE test_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_id UUID NOT NULL UNIQUE REFERENCES typing_tests(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  risk_score SMALLINT NOT NULL,
+  reasons JSONB NOT NULL,
+  -- Review
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'confirmed', 'cleared'
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP,
+  -- Timestamps
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_test_flags_status_created ON test_flags(status, created_at);
+CREATE INDEX idx_test_flags_user_id ON test_flags(user_id);
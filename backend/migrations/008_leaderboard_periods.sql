@@ -0,0 +1,14 @@
+/**
+ * Per-period leaderboard rows
+ * The builder writes one row per user per period, so user_id alone
+ * can no longer be unique
+ */
+
+ALTER TABLE leaderboard
+  DROP CONSTRAINT IF EXISTS leaderboard_user_id_key,
+  ALTER COLUMN period SET NOT NULL,
+  ADD COLUMN test_id UUID REFERENCES typing_tests(id) ON DELETE SET NULL, -- test the entry's wpm comes from
+  ADD CONSTRAINT leaderboard_user_period_unique UNIQUE (user_id, period);
+
+DROP INDEX IF EXISTS idx_leaderboard_rank;
+CREATE INDEX idx_leaderboard_period_rank ON leaderboard(period, rank);
@@ -0,0 +1,18 @@
+/**
+ * Leaderboard segments
+ * Boards are keyed by mode, duration or word count, language and period
+ * (e.g. time 15 english daily)
+ */
+
+-- Cached rows are rebuilt by the leaderboard job
+DELETE FROM leaderboard;
+
+ALTER TABLE leaderboard
+  DROP CONSTRAINT leaderboard_user_period_unique,
+  ADD COLUMN mode VARCHAR(20) NOT NULL, -- 'time', 'words'
+  ADD COLUMN mode_length INT NOT NULL, -- seconds for time mode, word count for words mode
+  ADD COLUMN language VARCHAR(20) NOT NULL,
+  ADD CONSTRAINT leaderboard_user_segment_unique UNIQUE (user_id, period, mode, mode_length, language);
+
+DROP INDEX IF EXISTS idx_leaderboard_period_rank;
+CREATE INDEX idx_leaderboard_segment_rank ON leaderboard(period, mode, mode_length, language, rank);
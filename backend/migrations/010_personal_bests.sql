@@ -0,0 +1,8 @@
+/**
+ * Personal best buckets
+ * duration holds the mode length: seconds for time mode, word count for
+ * words mode. It must be set so the unique key matches on upsert
+ */
+
+ALTER TABLE personal_bests
+  ALTER COLUMN duration SET NOT NULL;
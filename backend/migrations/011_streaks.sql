@@ -0,0 +1,11 @@
+/**
+ * Daily streaks
+ * A streak counts consecutive calendar days with at least one test,
+ * where days follow the user's time zone
+ */
+
+ALTER TABLE user_preferences
+  ADD COLUMN timezone VARCHAR(64) DEFAULT 'UTC'; -- IANA name, e.g. 'Europe/Berlin'
+
+ALTER TABLE test_statistics
+  ADD COLUMN last_test_date DATE; -- local date of the most recent test
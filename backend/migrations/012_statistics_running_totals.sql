@@ -0,0 +1,29 @@
+/**
+ * Running totals for test statistics
+ * Averages are kept as sums and counts so each new test updates them in
+ * place instead of rescanning the user's history
+ */
+
+ALTER TABLE test_statistics
+  ADD COLUMN wpm_sum DECIMAL(14, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN accuracy_sum DECIMAL(14, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN consistency_sum DECIMAL(14, 2) NOT NULL DEFAULT 0,
+  ADD COLUMN consistency_count INT NOT NULL DEFAULT 0; -- tests with a consistency score
+
+-- Backfill the sums from existing tests
+UPDATE test_statistics s
+SET wpm_sum = t.wpm_sum,
+    accuracy_sum = t.accuracy_sum,
+    consistency_sum = t.consistency_sum,
+    consistency_count = t.consistency_count
+FROM (
+  SELECT
+    user_id,
+    COALESCE(SUM(wpm), 0) AS wpm_sum,
+    COALESCE(SUM(accuracy), 0) AS accuracy_sum,
+    COALESCE(SUM(consistency), 0) AS consistency_sum,
+    COUNT(consistency) AS consistency_count
+  FROM typing_tests
+  GROUP BY user_id
+) t
+WHERE t.user_id = s.user_id;
@@ -0,0 +1,8 @@
+/**
+ * Preferences for every user
+ * Rows are created at registration from now on; add them for existing users
+ */
+
+INSERT INTO user_preferences (user_id)
+SELECT id FROM users
+ON CONFLICT (user_id) DO NOTHING;
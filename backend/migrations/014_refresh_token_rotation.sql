@@ -0,0 +1,12 @@
+/**
+ * Refresh token rotation
+ * Each refresh replaces the token with a new one in the same family.
+ * A family starts at login; presenting a replaced token revokes the
+ * whole family, since it means the token was stolen or replayed
+ */
+
+ALTER TABLE refresh_tokens
+  ADD COLUMN family_id UUID NOT NULL DEFAULT gen_random_uuid(),
+  ADD COLUMN replaced_by UUID REFERENCES refresh_tokens(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_refresh_tokens_family_id ON refresh_tokens(family_id);
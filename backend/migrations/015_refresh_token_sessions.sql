@@ -0,0 +1,9 @@
+/**
+ * Sessions from refresh tokens
+ * A session is one refresh token family. Each token records the client
+ * that obtained it, so the newest token shows where a session was last used
+ */
+
+ALTER TABLE refresh_tokens
+  ADD COLUMN user_agent TEXT,
+  ADD COLUMN ip_address VARCHAR(45); -- fits IPv6
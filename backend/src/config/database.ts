@@ -1,4 +1,4 @@
-import { Pool } from "pg";
+import { Pool, PoolClient, types } from "pg";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -8,6 +8,9 @@ dotenv.config();
  * Single instance for all database operations
  */
 
+// Return DATE columns as YYYY-MM-DD strings; they are calendar days, not instants
+types.setTypeParser(types.builtins.DATE, (value) => value);
+
 const pool = new Pool({
   connectionString:
     process.env.DATABASE_URL ||
@@ -21,4 +24,31 @@ pool.on("error", (err) => {
   console.error("Unexpected error on idle client", err);
 });
 
+/**
+ * Anything queries can run on: the pool, or a client inside a transaction
+ */
+export type Queryable = Pick<PoolClient, "query">;
+
+/**
+ * Run work inside a transaction on a dedicated client
+ * Commits when the work resolves, rolls back when it throws
+ */
+export async function withTransaction<T>(
+  work: (client: PoolClient) => Promise<T>,
+): Promise<T> {
+  const client = await pool.connect();
+
+  try {
+    await client.query("BEGIN");
+    const result = await work(client);
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 export default pool;
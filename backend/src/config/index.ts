@@ -27,7 +27,8 @@ export const config = {
   // JWT
   jwt: {
     secret: (process.env.JWT_SECRET || "your_super_secret_jwt_key") as string,
-    expiry: (process.env.JWT_EXPIRY || "7d") as string,
+    // Short-lived; clients renew through POST /api/auth/refresh
+    expiry: (process.env.JWT_EXPIRY || "15m") as string,
     refreshExpiry: "30d" as string,
   },
 
@@ -56,6 +57,29 @@ export const config = {
     maxWPM: 300,
     minAccuracy: 0,
     maxAccuracy: 100,
+    maxGeneratedWords: 1000,
+  },
+
+  // Test sessions
+  testSession: {
+    ttlSeconds: 60 * 60, // 1 hour to start and submit
+    clockToleranceSeconds: 2, // allowed drift between client and server clocks
+  },
+
+  // Anti-cheat
+  antiCheat: {
+    flagThreshold: 50, // risk score at which a test is flagged for review
+  },
+
+  // Leaderboards
+  leaderboard: {
+    rebuildIntervalMs: 5 * 60 * 1000, // 5 minutes
+    submitRebuildDelayMs: 30 * 1000, // at most one submit-triggered rebuild per 30 seconds
+  },
+
+  // Streaks
+  streaks: {
+    resetIntervalMs: 60 * 60 * 1000, // hourly, to catch midnight in every time zone
   },
 
   // Rate limiting
@@ -0,0 +1,109 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { validationResult } from "express-validator";
+import * as FlagModel from "../models/TestFlag";
+import * as StatsModel from "../models/TestStatistics";
+import * as PersonalBestModel from "../models/PersonalBest";
+import { requestLeaderboardRebuild } from "../jobs/leaderboardJob";
+
+/**
+ * Admin Controller
+ * Handles the anti-cheat review queue
+ */
+
+/**
+ * List flagged tests
+ */
+export async function getFlags(req: AuthRequest, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const status = (req.query.status as string) || "pending";
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const flags = await FlagModel.getFlags(
+      status === "all" ? null : (status as FlagModel.FlagStatus),
+      limit,
+      offset,
+    );
+
+    res.status(200).json({ flags, status });
+  } catch (error) {
+    console.error("Get flags error:", error);
+    res.status(500).json({ error: "Failed to get flags" });
+  }
+}
+
+/**
+ * Apply a review decision to a flag
+ */
+async function reviewFlag(
+  req: AuthRequest,
+  res: Response,
+  status: "confirmed" | "cleared",
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const flag = await FlagModel.reviewFlag(
+      req.params.flagId,
+      status,
+      req.user.userId,
+    );
+
+    if (!flag) {
+      res.status(404).json({ error: "Flag not found" });
+      return;
+    }
+
+    // The test's flagged state changed
+    await StatsModel.recalculateStatistics(flag.user_id);
+    await PersonalBestModel.rebuildPersonalBests(flag.user_id);
+    requestLeaderboardRebuild();
+
+    res.status(200).json({ flag });
+  } catch (error) {
+    console.error("Review flag error:", error);
+    res.status(500).json({ error: "Failed to review flag" });
+  }
+}
+
+/**
+ * Confirm a flag (test stays excluded)
+ */
+export async function confirmFlag(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  await reviewFlag(req, res, "confirmed");
+}
+
+/**
+ * Clear a flag (test counts again)
+ */
+export async function clearFlag(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  await reviewFlag(req, res, "cleared");
+}
+
+export default {
+  getFlags,
+  confirmFlag,
+  clearFlag,
+};
@@ -3,13 +3,60 @@ import { AuthRequest } from "../middleware/auth";
 import { validationResult } from "express-validator";
 import * as UserModel from "../models/User";
 import * as UserStats from "../models/TestStatistics";
-import { generateTokenPair } from "../utils/jwt";
+import * as UserPreferences from "../models/UserPreferences";
+import * as RefreshTokenModel from "../models/RefreshToken";
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  generateTokenPair,
+  getTokenExpiry,
+  JWTError,
+  TokenPair,
+  verifyRefreshToken,
+} from "../utils/jwt";
+import { randomUUID } from "crypto";
 
 /**
  * Authentication Controller
- * Handles user registration, login, and token refresh
+ * Handles user registration, login, token refresh and sessions
  */
 
+/**
+ * Issue an access token and a stored refresh token for a new sign-in
+ */
+async function issueTokens(
+  req: AuthRequest,
+  user: UserModel.User,
+): Promise<TokenPair> {
+  const sessionId = randomUUID();
+  const tokens = generateTokenPair({
+    userId: user.id,
+    username: user.username,
+    email: user.email,
+    sessionId,
+  });
+
+  await RefreshTokenModel.createRefreshToken(
+    user.id,
+    tokens.refreshToken,
+    getTokenExpiry(tokens.refreshToken),
+    sessionId,
+    readTokenClient(req),
+  );
+
+  return tokens;
+}
+
+/**
+ * Describe the client making the request, for the session list
+ */
+function readTokenClient(req: AuthRequest): RefreshTokenModel.TokenClient {
+  return {
+    userAgent: req.get("user-agent")?.slice(0, 512) || null,
+    ipAddress: req.ip || null,
+  };
+}
+
 /**
  * Register new user
  */
@@ -32,15 +79,12 @@ export async function register(req: AuthRequest, res: Response): Promise<void> {
     // Create user
     const user = await UserModel.createUser({ username, email, password });
 
-    // Initialize statistics
+    // Initialize statistics and preferences
     await UserStats.initializeStatistics(user.id);
+    await UserPreferences.initializePreferences(user.id);
 
     // Generate tokens
-    const tokens = generateTokenPair({
-      userId: user.id,
-      username: user.username,
-      email: user.email,
-    });
+    const tokens = await issueTokens(req, user);
 
     res.status(201).json({
       message: "User registered successfully",
@@ -87,11 +131,7 @@ export async function login(req: AuthRequest, res: Response): Promise<void> {
     await UserModel.updateLastLogin(user.id);
 
     // Generate tokens
-    const tokens = generateTokenPair({
-      userId: user.id,
-      username: user.username,
-      email: user.email,
-    });
+    const tokens = await issueTokens(req, user);
 
     res.status(200).json({
       message: "Login successful",
@@ -188,9 +228,194 @@ export async function updateProfile(
   }
 }
 
+/**
+ * Exchange a refresh token for a new token pair
+ * Each refresh token works once; reusing one revokes its whole family
+ */
+export async function refresh(req: AuthRequest, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { refreshToken } = req.body;
+    const { userId } = verifyRefreshToken(refreshToken);
+
+    const user = await UserModel.findUserById(userId);
+    if (!user || !user.is_active) {
+      res.status(401).json({ error: "Invalid refresh token" });
+      return;
+    }
+
+    const replacement = generateRefreshToken(user.id);
+    const rotation = await RefreshTokenModel.rotateRefreshToken(
+      refreshToken,
+      replacement,
+      getTokenExpiry(replacement),
+      readTokenClient(req),
+    );
+
+    if (rotation.status === "reused") {
+      console.warn("Refresh token reuse detected for user:", user.id);
+      res.status(401).json({
+        error: "Refresh token already used. Please log in again.",
+      });
+      return;
+    }
+
+    if (rotation.status === "invalid") {
+      res.status(401).json({ error: "Invalid refresh token" });
+      return;
+    }
+
+    res.status(200).json({
+      accessToken: generateAccessToken({
+        userId: user.id,
+        username: user.username,
+        email: user.email,
+        sessionId: rotation.token.family_id,
+      }),
+      refreshToken: replacement,
+    });
+  } catch (error) {
+    if (error instanceof JWTError) {
+      res
+        .status(error.getStatusCode())
+        .json({ error: "Invalid refresh token" });
+      return;
+    }
+
+    console.error("Refresh error:", error);
+    res.status(500).json({ error: "Token refresh failed" });
+  }
+}
+
+/**
+ * Logout user by revoking their refresh token
+ */
+export async function logout(req: AuthRequest, res: Response): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    await RefreshTokenModel.revokeRefreshToken(req.body.refreshToken);
+
+    res.status(200).json({ message: "Logged out successfully" });
+  } catch (error) {
+    console.error("Logout error:", error);
+    res.status(500).json({ error: "Logout failed" });
+  }
+}
+
+/**
+ * List the current user's active sessions
+ */
+export async function getSessions(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Not authenticated" });
+      return;
+    }
+
+    const sessions = await RefreshTokenModel.getActiveSessions(req.user.userId);
+
+    res.status(200).json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.id === req.user?.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error("Get sessions error:", error);
+    res.status(500).json({ error: "Failed to get sessions" });
+  }
+}
+
+/**
+ * Revoke one of the current user's sessions
+ */
+export async function revokeSession(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Not authenticated" });
+      return;
+    }
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const revoked = await RefreshTokenModel.revokeSession(
+      req.user.userId,
+      req.params.sessionId,
+    );
+
+    if (!revoked) {
+      res.status(404).json({ error: "Session not found" });
+      return;
+    }
+
+    res.status(200).json({ message: "Session revoked" });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    res.status(500).json({ error: "Failed to revoke session" });
+  }
+}
+
+/**
+ * Revoke every session of the current user except this one
+ */
+export async function revokeOtherSessions(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Not authenticated" });
+      return;
+    }
+
+    // Tokens issued before sessions existed cannot tell which one to keep
+    if (!req.user.sessionId) {
+      res.status(409).json({
+        error: "Current session unknown. Please log in again.",
+      });
+      return;
+    }
+
+    const revoked = await RefreshTokenModel.revokeOtherSessions(
+      req.user.userId,
+      req.user.sessionId,
+    );
+
+    res.status(200).json({ message: "Other sessions revoked", revoked });
+  } catch (error) {
+    console.error("Revoke sessions error:", error);
+    res.status(500).json({ error: "Failed to revoke sessions" });
+  }
+}
+
 export default {
   register,
   login,
+  refresh,
+  logout,
+  getSessions,
+  revokeSession,
+  revokeOtherSessions,
   getCurrentUser,
   updateProfile,
 };
@@ -1,42 +1,85 @@
-import pool from "../config/database";
 import { Response } from "express";
+import { validationResult } from "express-validator";
+import { AuthRequest } from "../middleware/auth";
+import * as LeaderboardModel from "../models/Leaderboard";
+import {
+  LeaderboardEntry,
+  LeaderboardPeriod,
+  LeaderboardSegment,
+} from "../models/Leaderboard";
 
 /**
  * Leaderboard Controller
  * Handles leaderboard queries and rankings
  */
 
+/**
+ * Read the board to show from the query string
+ * Defaults to time 60 english all-time
+ */
+function readSegment(query: Record<string, any>): LeaderboardSegment {
+  const mode = (query.mode as string) || "time";
+  return {
+    period: (query.period as LeaderboardPeriod) || "all_time",
+    mode,
+    modeLength: parseInt(query.length) || (mode === "time" ? 60 : 50),
+    language: (query.language as string) || "english",
+  };
+}
+
+/**
+ * Share of ranked users at or below a rank (100 = first place)
+ */
+function calculatePercentile(rank: number, total: number): number {
+  if (total === 0) return 0;
+  return Math.round(((total - rank + 1) / total) * 10000) / 100;
+}
+
+/**
+ * Shape a stored entry for the API
+ */
+function toLeaderboardRow(entry: LeaderboardEntry) {
+  return {
+    rank: entry.rank,
+    user_id: entry.user_id,
+    username: entry.username,
+    wpm: entry.wpm,
+    accuracy: entry.accuracy,
+    tests_completed: entry.tests_completed,
+    avg_consistency: entry.avg_consistency,
+  };
+}
+
 /**
  * Get global leaderboard
  */
 export async function getGlobalLeaderboard(
-  req: any,
+  req: AuthRequest,
   res: Response,
 ): Promise<void> {
   try {
-    const period = req.query.period || "all_time";
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const segment = readSegment(req.query);
     const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
     const offset = parseInt(req.query.offset as string) || 0;
 
-    const result = await pool.query(
-      `SELECT 
-        ROW_NUMBER() OVER (ORDER BY wpm DESC) as rank,
-        user_id,
-        username,
-        wpm,
-        accuracy,
-        tests_completed,
-        avg_consistency
-       FROM leaderboard
-       WHERE period = $1
-       ORDER BY wpm DESC
-       LIMIT $2 OFFSET $3`,
-      [period, limit, offset],
+    const entries = await LeaderboardModel.getLeaderboard(
+      segment,
+      limit,
+      offset,
     );
 
     res.status(200).json({
-      leaderboard: result.rows,
-      period,
+      leaderboard: entries.map(toLeaderboardRow),
+      period: segment.period,
+      mode: segment.mode,
+      length: segment.modeLength,
+      language: segment.language,
     });
   } catch (error) {
     console.error("Get leaderboard error:", error);
@@ -47,37 +90,95 @@ export async function getGlobalLeaderboard(
 /**
  * Get user's leaderboard rank
  */
-export async function getUserRank(req: any, res: Response): Promise<void> {
+export async function getUserRank(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
   try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
     const { userId } = req.params;
-    const period = req.query.period || "all_time";
-
-    const result = await pool.query(
-      `SELECT 
-        ROW_NUMBER() OVER (ORDER BY wpm DESC) as rank,
-        user_id,
-        username,
-        wpm,
-        tests_completed
-       FROM leaderboard
-       WHERE period = $1
-       AND user_id = $2`,
-      [period, userId],
-    );
+    const segment = readSegment(req.query);
+
+    const entry = await LeaderboardModel.getUserEntry(segment, userId);
 
-    if (result.rows.length === 0) {
+    if (!entry) {
       res.status(404).json({ error: "User not ranked" });
       return;
     }
 
-    res.status(200).json(result.rows[0]);
+    res.status(200).json({
+      rank: entry.rank,
+      user_id: entry.user_id,
+      username: entry.username,
+      wpm: entry.wpm,
+      tests_completed: entry.tests_completed,
+      total: entry.total,
+      percentile: calculatePercentile(entry.rank, entry.total),
+    });
   } catch (error) {
     console.error("Get rank error:", error);
     res.status(500).json({ error: "Failed to get rank" });
   }
 }
 
+/**
+ * Get the board around the current user
+ */
+export async function getAroundMe(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    if (!req.user) {
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+
+    const segment = readSegment(req.query);
+    const window = parseInt(req.query.window as string) || 5;
+
+    const entry = await LeaderboardModel.getUserEntry(segment, req.user.userId);
+
+    if (!entry) {
+      res.status(404).json({ error: "User not ranked" });
+      return;
+    }
+
+    const entries = await LeaderboardModel.getEntriesAroundUser(
+      segment,
+      req.user.userId,
+      window,
+    );
+
+    res.status(200).json({
+      leaderboard: entries.map(toLeaderboardRow),
+      rank: entry.rank,
+      total: entry.total,
+      percentile: calculatePercentile(entry.rank, entry.total),
+      period: segment.period,
+      mode: segment.mode,
+      length: segment.modeLength,
+      language: segment.language,
+    });
+  } catch (error) {
+    console.error("Get around me error:", error);
+    res.status(500).json({ error: "Failed to get leaderboard" });
+  }
+}
+
 export default {
   getGlobalLeaderboard,
   getUserRank,
+  getAroundMe,
 };
@@ -2,8 +2,35 @@ import { Response } from "express";
 import { AuthRequest } from "../middleware/auth";
 import * as TestModel from "../models/TypingTest";
 import * as StatsModel from "../models/TestStatistics";
+import * as WordListModel from "../models/WordList";
+import * as SessionModel from "../models/TestSession";
+import * as KeyStatsModel from "../models/KeyStatistics";
+import * as NgramStatsModel from "../models/NgramStatistics";
+import * as FlagModel from "../models/TestFlag";
+import * as PersonalBestModel from "../models/PersonalBest";
+import * as AchievementModel from "../models/Achievement";
 import { validationResult } from "express-validator";
 import { calculateTestMetrics } from "../utils/typingCalculations";
+import {
+  aggregateKeyStats,
+  aggregateNgramStats,
+  annotateKeystrokes,
+  normalizeInputHistory,
+} from "../utils/keystrokes";
+import { assessRisk } from "../utils/antiCheat";
+import { detectBot } from "../utils/botDetection";
+import {
+  describeAchievement,
+  evaluateAchievements,
+} from "../utils/achievements";
+import {
+  generateTestText,
+  TextGenerationOptions,
+} from "../utils/textGenerator";
+import { rangeEndExclusive } from "../utils/dateRange";
+import { requestSubmitRebuild } from "../jobs/leaderboardJob";
+import config from "../config";
+import { Queryable, withTransaction } from "../config/database";
 
 /**
  * Typing Test Controller
@@ -11,9 +38,76 @@ import { calculateTestMetrics } from "../utils/typingCalculations";
  */
 
 /**
- * Submit typing test result
+ * Read generation options from query string or body
  */
-export async function submitTest(
+function readGenerationParams(source: Record<string, any>) {
+  const mode: TextGenerationOptions["mode"] = source.mode || "time";
+  return {
+    mode,
+    language: (source.language as string) || "english",
+    difficulty: (source.difficulty as string) || "normal",
+    testType:
+      (source.testType as TextGenerationOptions["testType"]) || "normal",
+    length: parseInt(source.length) || (mode === "time" ? 60 : 50),
+  };
+}
+
+/**
+ * Build prompt text from the stored word list
+ * Returns null when no list exists for the language/difficulty
+ */
+async function buildPromptText(
+  params: ReturnType<typeof readGenerationParams>,
+): Promise<string | null> {
+  const wordList = await WordListModel.getWordList(
+    params.language,
+    params.difficulty,
+  );
+  if (!wordList || wordList.words.length === 0) {
+    return null;
+  }
+
+  return generateTestText(wordList.words, {
+    mode: params.mode,
+    testType: params.testType,
+    length: params.length,
+  });
+}
+
+/**
+ * Generate test text from the stored word lists
+ */
+export async function generateTest(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const params = readGenerationParams(req.query);
+    const text = await buildPromptText(params);
+
+    if (text === null) {
+      res.status(404).json({ error: "No word list for language/difficulty" });
+      return;
+    }
+
+    res.status(200).json({ text, ...params });
+  } catch (error) {
+    console.error("Generate test error:", error);
+    res.status(500).json({ error: "Failed to generate test" });
+  }
+}
+
+/**
+ * Start a test session
+ * Issues the prompt the result must later be submitted against
+ */
+export async function createSession(
   req: AuthRequest,
   res: Response,
 ): Promise<void> {
@@ -29,52 +123,140 @@ export async function submitTest(
       return;
     }
 
-    const {
-      originalText,
-      typedText,
-      duration,
-      difficulty,
-      language = "english",
-      mode = "time",
-      testType = "normal",
-      inputHistory,
-      durationActual,
-    } = req.body;
+    const params = readGenerationParams(req.body);
+    const text = await buildPromptText(params);
 
-    // Validate inputs
-    if (!originalText || !typedText || !duration) {
-      res.status(400).json({ error: "Missing required fields" });
+    if (text === null) {
+      res.status(404).json({ error: "No word list for language/difficulty" });
       return;
     }
 
-    // Check for suspicious activity
-    if (durationActual && durationActual > duration * 1.5) {
-      res.status(400).json({ error: "Test duration exceeded limits" });
-      return;
-    }
+    const session = await SessionModel.createTestSession({
+      user_id: req.user.userId,
+      text,
+      mode: params.mode,
+      language: params.language,
+      difficulty: params.difficulty,
+      test_type: params.testType,
+      duration: params.mode === "time" ? params.length : null,
+      word_count: params.mode === "words" ? params.length : null,
+      ttl_seconds: config.testSession.ttlSeconds,
+    });
 
-    // Calculate metrics
-    const metrics = calculateTestMetrics(
-      originalText,
-      typedText,
-      durationActual || duration,
-      inputHistory,
-    );
+    res.status(201).json({
+      sessionId: session.id,
+      text: session.text,
+      startedAt: session.started_at,
+      expiresAt: session.expires_at,
+      config: {
+        mode: session.mode,
+        language: session.language,
+        difficulty: session.difficulty,
+        testType: session.test_type,
+        duration: session.duration,
+        wordCount: session.word_count,
+      },
+    });
+  } catch (error) {
+    console.error("Create session error:", error);
+    res.status(500).json({ error: "Failed to create test session" });
+  }
+}
 
-    // Check for cheating patterns
-    if (metrics.anomalies?.suspiciousPaste || metrics.anomalies?.unusualSpeed) {
-      console.warn(`Suspicious activity for user ${req.user.userId}`);
-      // Still save but flag it
-    }
+interface Submission {
+  typedText: string;
+  inputHistory?: any[];
+  durationActual?: number;
+}
 
-    // Create test record
-    const test = await TestModel.createTypingTest({
-      user_id: req.user.userId,
-      duration,
-      difficulty,
-      language,
-      mode,
-      test_type: testType,
+type SubmitOutcome =
+  | { status: "unavailable" } // missing, already submitted or expired
+  | { status: "rejected"; error: string }
+  | {
+      status: "saved";
+      test: TestModel.TypingTest;
+      metrics: ReturnType<typeof calculateTestMetrics>;
+      personalBest: PersonalBestModel.PersonalBestResult;
+      unlocked: AchievementModel.UserAchievement[];
+    };
+
+/**
+ * Check the claimed typing time against the server clock
+ * Returns the rejection message, or null when the timing is plausible
+ */
+function checkSubmissionTime(
+  session: SessionModel.ConsumedTestSession,
+  durationActual?: number,
+): string | null {
+  const tolerance = config.testSession.clockToleranceSeconds;
+
+  if (
+    durationActual !== undefined &&
+    durationActual > session.elapsed_seconds + tolerance
+  ) {
+    return "Test duration exceeds elapsed session time";
+  }
+
+  if (
+    session.mode === "time" &&
+    session.duration &&
+    session.elapsed_seconds + tolerance < session.duration
+  ) {
+    return "Test duration exceeded limits";
+  }
+
+  return null;
+}
+
+/**
+ * Score a submission and save the test with everything derived from it
+ * Runs inside the submit transaction, so a failure leaves the session unused
+ */
+async function recordSubmission(
+  client: Queryable,
+  userId: string,
+  session: SessionModel.ConsumedTestSession,
+  { typedText, inputHistory, durationActual }: Submission,
+): Promise<SubmitOutcome> {
+  const keystrokes = normalizeInputHistory(inputHistory);
+
+  // Time mode runs for the session's duration. Words mode runs from the
+  // first to the last keystroke, so reading the prompt does not count,
+  // but never longer than the server clock allows
+  const typingSeconds =
+    keystrokes.length > 0 ? keystrokes[keystrokes.length - 1].time / 1000 : 0;
+  const timeInSeconds =
+    session.mode === "time" && session.duration
+      ? session.duration
+      : typingSeconds > 0
+        ? Math.min(typingSeconds, session.elapsed_seconds)
+        : session.elapsed_seconds;
+
+  // Calculate metrics against the server-issued prompt
+  const metrics = calculateTestMetrics(
+    session.text,
+    typedText,
+    timeInSeconds,
+    inputHistory,
+  );
+
+  // Score the submission for cheating patterns
+  const risk = assessRisk({
+    wpm: metrics.wpm,
+    typedText,
+    keystrokes,
+    anomalies: metrics.anomalies,
+    bot: detectBot(keystrokes),
+  });
+
+  const test = await TestModel.createTypingTest(
+    {
+      user_id: userId,
+      duration: session.duration || Math.round(timeInSeconds),
+      difficulty: session.difficulty,
+      language: session.language,
+      mode: session.mode,
+      test_type: session.test_type,
       wpm: metrics.wpm,
       raw_wpm: metrics.rawWpm,
       accuracy: metrics.accuracy,
@@ -85,21 +267,184 @@ export async function submitTest(
       missed_characters: metrics.characters.missed,
       consistency: metrics.consistency,
       input_history: inputHistory || null,
+      wpm_series: metrics.series.length > 0 ? metrics.series : null,
       duration_actual: durationActual,
-    });
+      session_id: session.id,
+      word_count: session.word_count,
+      risk_score: risk.score,
+      flag_reasons: risk.reasons.length > 0 ? risk.reasons : null,
+      is_flagged: risk.flagged,
+    },
+    client,
+  );
+
+  if (risk.flagged) {
+    await FlagModel.createTestFlag(
+      test.id,
+      userId,
+      risk.score,
+      risk.reasons,
+      client,
+    );
+  }
+
+  await StatsModel.applyTestToStatistics(test, client);
+  await StatsModel.updateStreak(userId, client);
+
+  // Flagged tests never count as a personal best
+  const modeLength =
+    session.mode === "words" ? session.word_count : test.duration;
+  const personalBest =
+    !test.is_flagged && modeLength
+      ? await PersonalBestModel.updatePersonalBest(
+          {
+            user_id: userId,
+            difficulty: session.difficulty,
+            mode: session.mode,
+            duration: modeLength,
+            wpm: metrics.wpm,
+            accuracy: metrics.accuracy,
+            test_id: test.id,
+          },
+          client,
+        )
+      : { isPersonalBest: false, previousWpm: null };
+
+  // Per-key and n-gram analytics from the keystroke stream
+  const annotated = annotateKeystrokes(session.text, keystrokes);
+  await KeyStatsModel.saveTestKeyStats(
+    test.id,
+    userId,
+    aggregateKeyStats(annotated),
+    client,
+  );
+  await NgramStatsModel.saveTestNgramStats(
+    test.id,
+    userId,
+    [
+      ...aggregateNgramStats(annotated, 2),
+      ...aggregateNgramStats(annotated, 3),
+    ],
+    client,
+  );
+
+  // Achievements from this test and the updated totals
+  const unflagged = await TestModel.getUnflaggedTotals(userId, client);
+  const unlocked = await AchievementModel.awardAchievements(
+    userId,
+    evaluateAchievements({
+      test: test.is_flagged
+        ? null
+        : {
+            wpm: metrics.wpm,
+            accuracy: metrics.accuracy,
+            consistency: metrics.consistency,
+            characters:
+              metrics.characters.correct +
+              metrics.characters.incorrect +
+              metrics.characters.extra +
+              metrics.characters.missed,
+          },
+      stats: {
+        unflagged_tests: unflagged.tests,
+        unflagged_time_typing: unflagged.time_typing,
+        unflagged_streak: unflagged.current_streak,
+      },
+    }),
+    client,
+  );
+
+  return { status: "saved", test, metrics, personalBest, unlocked };
+}
+
+/**
+ * Submit typing test result
+ * The prompt and config come from the server-issued session
+ */
+export async function submitTest(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Not authenticated" });
+      return;
+    }
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
 
-    // Recalculate user statistics
-    await StatsModel.recalculateStatistics(req.user.userId);
+    const { sessionId } = req.body;
+    const userId = req.user.userId;
+
+    // Claim the session and save the result together
+    const outcome = await withTransaction(
+      async (client): Promise<SubmitOutcome> => {
+        const session = await SessionModel.consumeTestSession(
+          sessionId,
+          userId,
+          client,
+        );
+        if (!session) return { status: "unavailable" };
+
+        // Rejected submissions still use up the session
+        const rejection = checkSubmissionTime(session, req.body.durationActual);
+        if (rejection) return { status: "rejected", error: rejection };
+
+        return recordSubmission(client, userId, session, req.body);
+      },
+    );
+
+    if (outcome.status === "unavailable") {
+      const existing = await SessionModel.getTestSession(sessionId, userId);
+
+      if (!existing) {
+        res.status(404).json({ error: "Test session not found" });
+      } else if (existing.consumed_at) {
+        res.status(409).json({ error: "Test session already submitted" });
+      } else {
+        res.status(410).json({ error: "Test session expired" });
+      }
+      return;
+    }
+
+    if (outcome.status === "rejected") {
+      res.status(400).json({ error: outcome.error });
+      return;
+    }
+
+    const { test, metrics, personalBest, unlocked } = outcome;
+
+    // Leaderboards catch up in the background
+    requestSubmitRebuild();
 
     res.status(201).json({
       message: "Test submitted successfully",
       test: {
         id: test.id,
         wpm: test.wpm,
+        raw_wpm: test.raw_wpm,
         accuracy: test.accuracy,
         consistency: test.consistency,
+        characters: metrics.characters,
+        wpm_series: test.wpm_series,
+        flagged: test.is_flagged,
         created_at: test.created_at,
       },
+      personal_best: {
+        set: personalBest.isPersonalBest,
+        previous_wpm: personalBest.previousWpm,
+        improvement:
+          personalBest.isPersonalBest && personalBest.previousWpm !== null
+            ? Math.round((metrics.wpm - personalBest.previousWpm) * 100) / 100
+            : null,
+      },
+      achievements: unlocked.map((a) =>
+        describeAchievement(a.achievement_type, a.earned_at),
+      ),
     });
   } catch (error: any) {
     console.error("Submit test error:", error);
@@ -149,6 +494,7 @@ export async function getTestHistory(
 
 /**
  * Get user statistics
+ * With groupBy, also breaks them down per mode, duration, language or test type
  */
 export async function getStatistics(
   req: AuthRequest,
@@ -160,6 +506,12 @@ export async function getStatistics(
       return;
     }
 
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
     const userId = req.params.userId || req.user.userId;
 
     const stats = await StatsModel.getUserStatistics(userId);
@@ -169,13 +521,68 @@ export async function getStatistics(
       return;
     }
 
-    res.status(200).json(stats);
+    if (!req.query.groupBy) {
+      res.status(200).json(stats);
+      return;
+    }
+
+    const groupBy = [
+      ...new Set((req.query.groupBy as string).split(",")),
+    ] as StatsModel.BreakdownDimension[];
+
+    res.status(200).json({
+      ...stats,
+      group_by: groupBy,
+      breakdown: await StatsModel.getStatisticsBreakdown(userId, groupBy),
+    });
   } catch (error) {
     console.error("Get statistics error:", error);
     res.status(500).json({ error: "Failed to get statistics" });
   }
 }
 
+/**
+ * Get user's progress over time in day, week or month buckets
+ */
+export async function getProgress(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Not authenticated" });
+      return;
+    }
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const options: TestModel.ProgressOptions = {
+      interval: (req.query.interval as TestModel.ProgressInterval) || "day",
+      days: parseInt(req.query.days as string) || 90,
+      window: parseInt(req.query.window as string) || 7,
+      mode: (req.query.mode as string) || undefined,
+      duration: parseInt(req.query.duration as string) || undefined,
+      difficulty: (req.query.difficulty as string) || undefined,
+    };
+
+    const progress = await TestModel.getProgress(req.user.userId, options);
+
+    res.status(200).json({
+      interval: options.interval,
+      days: options.days,
+      window: options.window,
+      progress,
+    });
+  } catch (error) {
+    console.error("Get progress error:", error);
+    res.status(500).json({ error: "Failed to get progress" });
+  }
+}
+
 /**
  * Get user's best test
  */
@@ -210,9 +617,84 @@ export async function getBestTest(
 }
 
 /**
- * Get test by ID
+ * Get user's personal bests per difficulty, mode and duration
  */
-export async function getTestById(
+export async function getPersonalBests(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Not authenticated" });
+      return;
+    }
+
+    const personalBests = await PersonalBestModel.getUserPersonalBests(
+      req.user.userId,
+    );
+
+    res.status(200).json({
+      personal_bests: personalBests.map((pb) => ({
+        difficulty: pb.difficulty,
+        mode: pb.mode,
+        duration: pb.duration,
+        wpm: pb.wpm,
+        accuracy: pb.accuracy,
+        test_id: pb.test_id,
+        set_at: pb.set_at,
+      })),
+    });
+  } catch (error) {
+    console.error("Get personal bests error:", error);
+    res.status(500).json({ error: "Failed to get personal bests" });
+  }
+}
+
+/**
+ * Get per-key error and latency analytics
+ */
+export async function getKeyAnalytics(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Not authenticated" });
+      return;
+    }
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : undefined;
+    const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+    const keys = await KeyStatsModel.getUserKeyAnalytics(
+      req.user.userId,
+      from,
+      req.query.to ? rangeEndExclusive(req.query.to as string) : undefined,
+    );
+
+    res.status(200).json({
+      keys,
+      from: from || null,
+      to: to || null,
+    });
+  } catch (error) {
+    console.error("Get key analytics error:", error);
+    res.status(500).json({ error: "Failed to get key analytics" });
+  }
+}
+
+/**
+ * Get slowest and most error-prone bigrams or trigrams
+ */
+export async function getNgramAnalytics(
   req: AuthRequest,
   res: Response,
 ): Promise<void> {
@@ -222,13 +704,111 @@ export async function getTestById(
       return;
     }
 
-    const { testId: _testId } = req.params;
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
 
-    // In production, would fetch from DB
-    // For now, this is a placeholder
+    const query = {
+      n: parseInt(req.query.n as string) || 2,
+      limit: Math.min(parseInt(req.query.limit as string) || 10, 100),
+      minSamples: parseInt(req.query.minSamples as string) || 5,
+      from: req.query.from ? new Date(req.query.from as string) : undefined,
+      before: req.query.to
+        ? rangeEndExclusive(req.query.to as string)
+        : undefined,
+    };
+
+    const [slowest, mostErrors] = await Promise.all([
+      NgramStatsModel.getUserNgramAnalytics(req.user.userId, {
+        ...query,
+        orderBy: "transition",
+      }),
+      NgramStatsModel.getUserNgramAnalytics(req.user.userId, {
+        ...query,
+        orderBy: "errors",
+      }),
+    ]);
 
     res.status(200).json({
-      message: "Test details retrieved",
+      n: query.n,
+      slowest,
+      mostErrors,
+    });
+  } catch (error) {
+    console.error("Get n-gram analytics error:", error);
+    res.status(500).json({ error: "Failed to get n-gram analytics" });
+  }
+}
+
+/**
+ * Load a test the requesting user is allowed to see
+ * Owner always; other users only when the owner's profile is public
+ * Returns null (respond 404) otherwise
+ */
+async function loadVisibleTest(
+  req: AuthRequest,
+): Promise<TestModel.TypingTestDetail | null> {
+  // Malformed IDs are indistinguishable from missing tests
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) return null;
+
+  const test = await TestModel.getTestById(req.params.testId);
+  if (!test) return null;
+
+  if (test.user_id !== req.user?.userId && !test.profile_public) {
+    return null;
+  }
+
+  return test;
+}
+
+/**
+ * Get test by ID
+ * Visible to the owner, or to anyone (signed in or not) when the owner's
+ * profile is public
+ */
+export async function getTestById(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    const test = await loadVisibleTest(req);
+
+    if (!test) {
+      res.status(404).json({ error: "Test not found" });
+      return;
+    }
+
+    res.status(200).json({
+      id: test.id,
+      user_id: test.user_id,
+      username: test.username,
+      wpm: test.wpm,
+      raw_wpm: test.raw_wpm,
+      accuracy: test.accuracy,
+      consistency: test.consistency,
+      difficulty: test.difficulty,
+      duration: test.duration,
+      duration_actual: test.duration_actual,
+      word_count: test.word_count,
+      language: test.language,
+      mode: test.mode,
+      test_type: test.test_type,
+      characters_typed: test.characters_typed,
+      correct_characters: test.correct_characters,
+      incorrect_characters: test.incorrect_characters,
+      extra_characters: test.extra_characters,
+      missed_characters: test.missed_characters,
+      original_text: test.original_text,
+      input_history: test.input_history,
+      wpm_series: test.wpm_series,
+      race: test.race_id
+        ? { id: test.race_id, position: test.position_in_race }
+        : null,
+      created_at: test.created_at,
+      completed_at: test.completed_at,
     });
   } catch (error) {
     console.error("Get test error:", error);
@@ -236,10 +816,47 @@ export async function getTestById(
   }
 }
 
+/**
+ * Get keystroke replay for a test
+ * Same visibility rules as getTestById
+ */
+export async function getTestReplay(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    const test = await loadVisibleTest(req);
+
+    if (!test) {
+      res.status(404).json({ error: "Test not found" });
+      return;
+    }
+
+    const events = normalizeInputHistory(test.input_history);
+
+    res.status(200).json({
+      testId: test.id,
+      originalText: test.original_text,
+      duration: test.duration,
+      totalTime: events.length > 0 ? events[events.length - 1].time : 0,
+      events,
+    });
+  } catch (error) {
+    console.error("Get replay error:", error);
+    res.status(500).json({ error: "Failed to get replay" });
+  }
+}
+
 export default {
+  generateTest,
+  createSession,
   submitTest,
   getTestHistory,
   getStatistics,
   getBestTest,
+  getPersonalBests,
+  getKeyAnalytics,
+  getNgramAnalytics,
   getTestById,
+  getTestReplay,
 };
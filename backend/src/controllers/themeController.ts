@@ -0,0 +1,45 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { validationResult } from "express-validator";
+import * as PreferencesModel from "../models/UserPreferences";
+import { encodeThemeCode } from "../utils/customTheme";
+
+/**
+ * Theme Controller
+ * Handles the community theme gallery
+ */
+
+/**
+ * Get custom themes shared by users, each with its shareable code
+ */
+export async function getThemeGallery(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
+
+    const themes = await PreferencesModel.getSharedThemes(limit, offset);
+
+    res.status(200).json({
+      themes: themes.map((theme) => ({
+        ...theme,
+        code: encodeThemeCode(theme.colors),
+      })),
+    });
+  } catch (error) {
+    console.error("Get theme gallery error:", error);
+    res.status(500).json({ error: "Failed to get theme gallery" });
+  }
+}
+
+export default {
+  getThemeGallery,
+};
@@ -0,0 +1,150 @@
+import { Response } from "express";
+import { AuthRequest } from "../middleware/auth";
+import { validationResult } from "express-validator";
+import * as UserModel from "../models/User";
+import * as AchievementModel from "../models/Achievement";
+import * as PreferencesModel from "../models/UserPreferences";
+import * as StatsModel from "../models/TestStatistics";
+import { describeAchievement } from "../utils/achievements";
+import { normalizeCustomTheme } from "../utils/customTheme";
+import { requestLeaderboardRebuild } from "../jobs/leaderboardJob";
+
+/**
+ * User Controller
+ * Handles user profile data and preferences
+ */
+
+/**
+ * Get a user's achievements
+ * Visible to the user, or to others when the profile is public
+ */
+export async function getAchievements(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    const userId = req.params.id;
+    const isPublic = await UserModel.isProfilePublic(userId);
+
+    if (isPublic === null || (!isPublic && req.user?.userId !== userId)) {
+      res.status(404).json({ error: "User not found" });
+      return;
+    }
+
+    const achievements = await AchievementModel.getUserAchievements(userId);
+
+    res.status(200).json({
+      achievements: achievements.map((a) =>
+        describeAchievement(a.achievement_type, a.earned_at),
+      ),
+    });
+  } catch (error) {
+    console.error("Get achievements error:", error);
+    res.status(500).json({ error: "Failed to get achievements" });
+  }
+}
+
+/**
+ * Get the current user's preferences
+ */
+export async function getPreferences(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Not authenticated" });
+      return;
+    }
+
+    const preferences = await PreferencesModel.getPreferences(req.user.userId);
+
+    if (!preferences) {
+      res.status(404).json({ error: "Preferences not found" });
+      return;
+    }
+
+    res.status(200).json(preferences);
+  } catch (error) {
+    console.error("Get preferences error:", error);
+    res.status(500).json({ error: "Failed to get preferences" });
+  }
+}
+
+/**
+ * Update the current user's preferences
+ * Only the fields in the body change
+ */
+export async function updatePreferences(
+  req: AuthRequest,
+  res: Response,
+): Promise<void> {
+  try {
+    if (!req.user) {
+      res.status(401).json({ error: "Not authenticated" });
+      return;
+    }
+
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const updates: PreferencesModel.PreferencesUpdate = {};
+    for (const column of PreferencesModel.EDITABLE_PREFERENCES) {
+      if (req.body[column] !== undefined) {
+        (updates as Record<string, unknown>)[column] = req.body[column];
+      }
+    }
+
+    if (updates.custom_theme_config) {
+      updates.custom_theme_config = normalizeCustomTheme(
+        updates.custom_theme_config,
+      );
+    }
+
+    if (Object.keys(updates).length === 0) {
+      res.status(400).json({ error: "No preferences to update" });
+      return;
+    }
+
+    const previous = await PreferencesModel.getPreferences(req.user.userId);
+    const preferences = await PreferencesModel.updatePreferences(
+      req.user.userId,
+      updates,
+    );
+
+    if (!previous || !preferences) {
+      res.status(404).json({ error: "Preferences not found" });
+      return;
+    }
+
+    // Leaderboards leave out users who opted out
+    if (previous.show_on_leaderboard !== preferences.show_on_leaderboard) {
+      requestLeaderboardRebuild();
+    }
+
+    // Streak days follow the time zone
+    if (previous.timezone !== preferences.timezone) {
+      await StatsModel.recalculateStatistics(req.user.userId);
+    }
+
+    res.status(200).json(preferences);
+  } catch (error) {
+    console.error("Update preferences error:", error);
+    res.status(500).json({ error: "Failed to update preferences" });
+  }
+}
+
+export default {
+  getAchievements,
+  getPreferences,
+  updatePreferences,
+};
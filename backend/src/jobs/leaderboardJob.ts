@@ -0,0 +1,88 @@
+import config from "../config";
+import { rebuildAllLeaderboards } from "../models/Leaderboard";
+import { logger } from "../utils/logger";
+
+/**
+ * Leaderboard Job
+ * Rebuilds leaderboards after submissions and on a fixed schedule
+ * (the schedule also rolls daily, weekly and monthly boards over)
+ */
+
+let running: Promise<void> | null = null;
+let rerunRequested = false;
+let timer: NodeJS.Timeout | null = null;
+let pendingSubmitRebuild: NodeJS.Timeout | null = null;
+
+async function run(): Promise<void> {
+  do {
+    rerunRequested = false;
+    try {
+      await rebuildAllLeaderboards();
+    } catch (error) {
+      logger.error("Leaderboard rebuild failed", error as Error);
+    }
+  } while (rerunRequested);
+}
+
+/**
+ * Request a rebuild without waiting for it
+ * Requests made while a rebuild is running collapse into one more run
+ */
+export function requestLeaderboardRebuild(): void {
+  if (running) {
+    rerunRequested = true;
+    return;
+  }
+
+  running = run().finally(() => {
+    running = null;
+  });
+}
+
+/**
+ * Request a rebuild after a test submission
+ * Submissions within the delay share one rebuild, so steady traffic
+ * does not keep a full rebuild running back to back
+ */
+export function requestSubmitRebuild(): void {
+  if (pendingSubmitRebuild) return;
+
+  pendingSubmitRebuild = setTimeout(() => {
+    pendingSubmitRebuild = null;
+    requestLeaderboardRebuild();
+  }, config.leaderboard.submitRebuildDelayMs);
+}
+
+/**
+ * Start the scheduled rebuild
+ */
+export function startLeaderboardSchedule(): void {
+  if (timer) return;
+
+  requestLeaderboardRebuild();
+  timer = setInterval(
+    requestLeaderboardRebuild,
+    config.leaderboard.rebuildIntervalMs,
+  );
+}
+
+/**
+ * Stop the scheduled rebuild
+ */
+export function stopLeaderboardSchedule(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+  if (pendingSubmitRebuild) {
+    clearTimeout(pendingSubmitRebuild);
+    pendingSubmitRebuild = null;
+  }
+}
+
+export default {
+  requestLeaderboardRebuild,
+  requestSubmitRebuild,
+  startLeaderboardSchedule,
+  stopLeaderboardSchedule,
+};
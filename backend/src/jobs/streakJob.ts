@@ -0,0 +1,47 @@
+import config from "../config";
+import { resetLapsedStreaks } from "../models/TestStatistics";
+import { logger } from "../utils/logger";
+
+/**
+ * Streak Job
+ * Resets streaks that lapsed at midnight. Midnight falls at a different
+ * hour in each time zone, so the reset runs every hour rather than once
+ */
+
+let timer: NodeJS.Timeout | null = null;
+
+async function run(): Promise<void> {
+  try {
+    const reset = await resetLapsedStreaks();
+    if (reset > 0) {
+      logger.info("Reset lapsed streaks", { count: reset });
+    }
+  } catch (error) {
+    logger.error("Streak reset failed", error as Error);
+  }
+}
+
+/**
+ * Start the scheduled streak reset
+ */
+export function startStreakSchedule(): void {
+  if (timer) return;
+
+  run();
+  timer = setInterval(run, config.streaks.resetIntervalMs);
+}
+
+/**
+ * Stop the scheduled streak reset
+ */
+export function stopStreakSchedule(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+export default {
+  startStreakSchedule,
+  stopStreakSchedule,
+};
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from "express";
 import { verifyToken, JWTError } from "../utils/jwt";
 import { logger } from "../utils/logger";
+import { findUserById } from "../models/User";
 
 /**
  * Authentication Middleware
@@ -13,6 +14,7 @@ export interface AuthRequest extends Request {
     userId: string;
     username: string;
     email: string;
+    sessionId?: string;
   };
   requestId?: string;
 }
@@ -146,7 +148,53 @@ export function optionalAuth(
   next();
 }
 
+/**
+ * Admin authorization middleware
+ * Must run after authenticateToken; the admin bit is read from the database
+ * so revoking it takes effect without waiting for tokens to expire
+ * Returns 403 when the authenticated user is not an admin
+ */
+export async function requireAdmin(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction,
+): Promise<void> {
+  if (!req.user) {
+    res.status(401).json({ error: "Unauthorized", code: "MISSING_TOKEN" });
+    return;
+  }
+
+  try {
+    const user = await findUserById(req.user.userId);
+
+    if (!user || !user.is_admin) {
+      logger.warn("Admin access denied", {
+        userId: req.user.userId,
+        endpoint: req.path,
+      });
+
+      res.status(403).json({
+        error: "Admin access required",
+        code: "FORBIDDEN",
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    logger.error("Admin authorization error", error as Error, {
+      endpoint: req.path,
+    });
+
+    res.status(500).json({
+      error: "Authorization service error",
+      code: "AUTH_ERROR",
+    });
+  }
+}
+
 export default {
   authenticateToken,
   optionalAuth,
+  requireAdmin,
 };
@@ -0,0 +1,58 @@
+import pool, { Queryable } from "../config/database";
+
+/**
+ * Achievement Model/Service
+ * Handles achievements earned by users
+ */
+
+export interface UserAchievement {
+  id: string;
+  user_id: string;
+  achievement_type: string;
+  earned_at: Date;
+}
+
+/**
+ * Record achievements for a user
+ * Already earned achievements are skipped
+ *
+ * @returns Only the achievements that were newly earned
+ */
+export async function awardAchievements(
+  userId: string,
+  keys: string[],
+  db: Queryable = pool,
+): Promise<UserAchievement[]> {
+  if (keys.length === 0) return [];
+
+  const result = await db.query(
+    `INSERT INTO user_achievements (user_id, achievement_type)
+     SELECT $1, * FROM UNNEST($2::varchar[])
+     ON CONFLICT (user_id, achievement_type) DO NOTHING
+     RETURNING *`,
+    [userId, keys],
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get all of a user's achievements, oldest first
+ */
+export async function getUserAchievements(
+  userId: string,
+): Promise<UserAchievement[]> {
+  const result = await pool.query(
+    `SELECT * FROM user_achievements
+     WHERE user_id = $1
+     ORDER BY earned_at, achievement_type`,
+    [userId],
+  );
+
+  return result.rows;
+}
+
+export default {
+  awardAchievements,
+  getUserAchievements,
+};
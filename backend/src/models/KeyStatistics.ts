@@ -0,0 +1,78 @@
+import pool, { Queryable } from "../config/database";
+import { KeyStat } from "../utils/keystrokes";
+
+/**
+ * Key Statistics Model/Service
+ * Handles per-key error and latency analytics
+ */
+
+export interface KeyAnalytics {
+  key: string;
+  samples: number;
+  errors: number;
+  error_rate: number; // 0-100
+  avg_latency: number | null; // milliseconds
+}
+
+/**
+ * Save per-key stats for a test
+ */
+export async function saveTestKeyStats(
+  testId: string,
+  userId: string,
+  stats: KeyStat[],
+  db: Queryable = pool,
+): Promise<void> {
+  if (stats.length === 0) return;
+
+  await db.query(
+    `INSERT INTO test_key_stats (
+      test_id, user_id, key, sample_count, error_count,
+      latency_total_ms, latency_count
+    )
+    SELECT $1::uuid, $2::uuid, * FROM UNNEST(
+      $3::varchar[], $4::int[], $5::int[], $6::bigint[], $7::int[]
+    )`,
+    [
+      testId,
+      userId,
+      stats.map((s) => s.key),
+      stats.map((s) => s.samples),
+      stats.map((s) => s.errors),
+      stats.map((s) => Math.round(s.latencyTotal)),
+      stats.map((s) => s.latencySamples),
+    ],
+  );
+}
+
+/**
+ * Get user's per-key analytics, optionally from `from` up to (excluding) `before`
+ */
+export async function getUserKeyAnalytics(
+  userId: string,
+  from?: Date,
+  before?: Date,
+): Promise<KeyAnalytics[]> {
+  const result = await pool.query(
+    `SELECT
+      key,
+      SUM(sample_count)::int AS samples,
+      SUM(error_count)::int AS errors,
+      ROUND(SUM(error_count) * 100.0 / NULLIF(SUM(sample_count), 0), 2)::float AS error_rate,
+      ROUND(SUM(latency_total_ms)::numeric / NULLIF(SUM(latency_count), 0), 2)::float AS avg_latency
+     FROM test_key_stats
+     WHERE user_id = $1
+     AND ($2::timestamp IS NULL OR created_at >= $2)
+     AND ($3::timestamp IS NULL OR created_at < $3)
+     GROUP BY key
+     ORDER BY key`,
+    [userId, from || null, before || null],
+  );
+
+  return result.rows;
+}
+
+export default {
+  saveTestKeyStats,
+  getUserKeyAnalytics,
+};
@@ -0,0 +1,240 @@
+import pool, { withTransaction } from "../config/database";
+
+/**
+ * Leaderboard Model/Service
+ * Rebuilds the cached leaderboard table from typing_tests
+ */
+
+export const LEADERBOARD_PERIODS = [
+  "daily",
+  "weekly",
+  "monthly",
+  "all_time",
+] as const;
+
+export type LeaderboardPeriod = (typeof LEADERBOARD_PERIODS)[number];
+
+export interface LeaderboardEntry {
+  id: string;
+  user_id: string;
+  username: string;
+  rank: number;
+  wpm: number;
+  accuracy: number;
+  tests_completed: number;
+  avg_consistency: number | null;
+  period: LeaderboardPeriod;
+  mode: string;
+  mode_length: number;
+  language: string;
+  test_id: string | null;
+  updated_at: Date;
+}
+
+export interface RankedLeaderboardEntry extends LeaderboardEntry {
+  total: number; // users ranked on the board
+}
+
+export interface LeaderboardSegment {
+  period: LeaderboardPeriod;
+  mode: string; // 'time', 'words'
+  modeLength: number; // seconds for time mode, word count for words mode
+  language: string;
+}
+
+// date_trunc field for the start of each period's window
+const PERIOD_START: Record<Exclude<LeaderboardPeriod, "all_time">, string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+};
+
+/**
+ * Recompute one period's leaderboards
+ * Tests are split into boards by mode, duration or word count and language;
+ * on each board a user is ranked by their best unflagged test in the period.
+ * Users who opted out with show_on_leaderboard are left off
+ *
+ * @returns Number of entries written across all boards
+ */
+export async function rebuildLeaderboard(
+  period: LeaderboardPeriod,
+): Promise<number> {
+  return withTransaction(async (client) => {
+    // Serialize concurrent rebuilds of the same period
+    await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [
+      `leaderboard:${period}`,
+    ]);
+
+    await client.query("DELETE FROM leaderboard WHERE period = $1", [period]);
+
+    const result = await client.query(
+      `INSERT INTO leaderboard (
+        user_id, username, rank, wpm, accuracy, tests_completed,
+        avg_consistency, period, mode, mode_length, language, test_id, updated_at
+      )
+      SELECT
+        user_id,
+        username,
+        RANK() OVER (
+          PARTITION BY mode, mode_length, language
+          ORDER BY wpm DESC, accuracy DESC
+        ),
+        wpm,
+        accuracy,
+        tests_completed,
+        avg_consistency,
+        $1,
+        mode,
+        mode_length,
+        language,
+        test_id,
+        CURRENT_TIMESTAMP
+      FROM (
+        SELECT DISTINCT ON (t.user_id, t.mode, mode_length, t.language)
+          t.user_id,
+          u.username,
+          t.mode,
+          CASE WHEN t.mode = 'words' THEN t.word_count ELSE t.duration END AS mode_length,
+          t.language,
+          t.id AS test_id,
+          t.wpm,
+          t.accuracy,
+          COUNT(*) OVER segment AS tests_completed,
+          ROUND(AVG(t.consistency) OVER segment, 2) AS avg_consistency
+        FROM typing_tests t
+        JOIN users u ON u.id = t.user_id
+        LEFT JOIN user_preferences p ON p.user_id = t.user_id
+        WHERE NOT t.is_flagged
+        AND t.mode IN ('time', 'words')
+        AND CASE WHEN t.mode = 'words' THEN t.word_count ELSE t.duration END IS NOT NULL
+        AND COALESCE(u.is_active, true)
+        AND COALESCE(p.show_on_leaderboard, true)
+        AND ($2::text IS NULL OR t.created_at >= date_trunc($2, CURRENT_TIMESTAMP))
+        WINDOW segment AS (
+          PARTITION BY t.user_id, t.mode,
+            CASE WHEN t.mode = 'words' THEN t.word_count ELSE t.duration END,
+            t.language
+        )
+        ORDER BY t.user_id, t.mode, mode_length, t.language,
+          t.wpm DESC, t.accuracy DESC, t.created_at ASC
+      ) best`,
+      [period, period === "all_time" ? null : PERIOD_START[period]],
+    );
+
+    return result.rowCount || 0;
+  });
+}
+
+/**
+ * Get one board's entries in rank order
+ */
+export async function getLeaderboard(
+  segment: LeaderboardSegment,
+  limit: number,
+  offset: number,
+): Promise<LeaderboardEntry[]> {
+  const result = await pool.query(
+    `SELECT * FROM leaderboard
+     WHERE period = $1
+     AND mode = $2
+     AND mode_length = $3
+     AND language = $4
+     ORDER BY rank, username
+     LIMIT $5 OFFSET $6`,
+    [
+      segment.period,
+      segment.mode,
+      segment.modeLength,
+      segment.language,
+      limit,
+      offset,
+    ],
+  );
+
+  return result.rows;
+}
+
+/**
+ * Get a user's entry on one board with the board's size
+ */
+export async function getUserEntry(
+  segment: LeaderboardSegment,
+  userId: string,
+): Promise<RankedLeaderboardEntry | null> {
+  const result = await pool.query(
+    `SELECT * FROM (
+      SELECT *, COUNT(*) OVER ()::int AS total
+      FROM leaderboard
+      WHERE period = $1
+      AND mode = $2
+      AND mode_length = $3
+      AND language = $4
+    ) board
+    WHERE user_id = $5`,
+    [
+      segment.period,
+      segment.mode,
+      segment.modeLength,
+      segment.language,
+      userId,
+    ],
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Get the entries within `window` places above and below a user
+ * Returns an empty list when the user is not on the board
+ */
+export async function getEntriesAroundUser(
+  segment: LeaderboardSegment,
+  userId: string,
+  window: number,
+): Promise<LeaderboardEntry[]> {
+  const result = await pool.query(
+    `WITH board AS (
+      SELECT *, ROW_NUMBER() OVER (ORDER BY rank, username) AS position
+      FROM leaderboard
+      WHERE period = $1
+      AND mode = $2
+      AND mode_length = $3
+      AND language = $4
+    ), me AS (
+      SELECT position FROM board WHERE user_id = $5
+    )
+    SELECT board.*
+    FROM board, me
+    WHERE board.position BETWEEN me.position - $6 AND me.position + $6
+    ORDER BY board.position`,
+    [
+      segment.period,
+      segment.mode,
+      segment.modeLength,
+      segment.language,
+      userId,
+      window,
+    ],
+  );
+
+  return result.rows;
+}
+
+/**
+ * Recompute every period's leaderboards
+ */
+export async function rebuildAllLeaderboards(): Promise<void> {
+  for (const period of LEADERBOARD_PERIODS) {
+    await rebuildLeaderboard(period);
+  }
+}
+
+export default {
+  LEADERBOARD_PERIODS,
+  rebuildLeaderboard,
+  rebuildAllLeaderboards,
+  getLeaderboard,
+  getUserEntry,
+  getEntriesAroundUser,
+};
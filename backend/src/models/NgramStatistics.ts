@@ -0,0 +1,102 @@
+import pool, { Queryable } from "../config/database";
+import { NgramStat } from "../utils/keystrokes";
+
+/**
+ * N-gram Statistics Model/Service
+ * Handles bigram and trigram transition analytics
+ */
+
+export interface NgramAnalytics {
+  ngram: string;
+  samples: number;
+  errors: number;
+  error_rate: number; // 0-100
+  avg_transition: number | null; // milliseconds from first to last key
+}
+
+export interface NgramQuery {
+  n: number;
+  orderBy: "transition" | "errors";
+  limit: number;
+  minSamples: number;
+  from?: Date;
+  before?: Date; // exclusive
+}
+
+/**
+ * Save n-gram stats for a test
+ */
+export async function saveTestNgramStats(
+  testId: string,
+  userId: string,
+  stats: NgramStat[],
+  db: Queryable = pool,
+): Promise<void> {
+  if (stats.length === 0) return;
+
+  await db.query(
+    `INSERT INTO test_ngram_stats (
+      test_id, user_id, ngram, n, sample_count, error_count,
+      transition_total_ms, transition_count
+    )
+    SELECT $1::uuid, $2::uuid, * FROM UNNEST(
+      $3::varchar[], $4::smallint[], $5::int[], $6::int[], $7::bigint[], $8::int[]
+    )`,
+    [
+      testId,
+      userId,
+      stats.map((s) => s.ngram),
+      stats.map((s) => s.n),
+      stats.map((s) => s.samples),
+      stats.map((s) => s.errors),
+      stats.map((s) => Math.round(s.transitionTotal)),
+      stats.map((s) => s.transitionSamples),
+    ],
+  );
+}
+
+/**
+ * Get user's n-grams ranked by slowness or error rate
+ */
+export async function getUserNgramAnalytics(
+  userId: string,
+  options: NgramQuery,
+): Promise<NgramAnalytics[]> {
+  const orderColumn =
+    options.orderBy === "errors" ? "error_rate" : "avg_transition";
+
+  const result = await pool.query(
+    `SELECT * FROM (
+      SELECT
+        ngram,
+        SUM(sample_count)::int AS samples,
+        SUM(error_count)::int AS errors,
+        ROUND(SUM(error_count) * 100.0 / NULLIF(SUM(sample_count), 0), 2)::float AS error_rate,
+        ROUND(SUM(transition_total_ms)::numeric / NULLIF(SUM(transition_count), 0), 2)::float AS avg_transition
+       FROM test_ngram_stats
+       WHERE user_id = $1
+       AND n = $2
+       AND ($3::timestamp IS NULL OR created_at >= $3)
+       AND ($4::timestamp IS NULL OR created_at < $4)
+       GROUP BY ngram
+       HAVING SUM(sample_count) >= $5
+     ) ngrams
+     ORDER BY ${orderColumn} DESC NULLS LAST, samples DESC
+     LIMIT $6`,
+    [
+      userId,
+      options.n,
+      options.from || null,
+      options.before || null,
+      options.minSamples,
+      options.limit,
+    ],
+  );
+
+  return result.rows;
+}
+
+export default {
+  saveTestNgramStats,
+  getUserNgramAnalytics,
+};
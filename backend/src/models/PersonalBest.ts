@@ -0,0 +1,128 @@
+import pool, { Queryable, withTransaction } from "../config/database";
+
+/**
+ * Personal Best Model/Service
+ * Handles the best result per difficulty, mode and duration
+ */
+
+export interface PersonalBest {
+  id: string;
+  user_id: string;
+  difficulty: string;
+  mode: string;
+  duration: number; // seconds for time mode, word count for words mode
+  wpm: number;
+  accuracy: number;
+  test_id: string | null;
+  set_at: Date;
+}
+
+export interface PersonalBestInput {
+  user_id: string;
+  difficulty: string;
+  mode: string;
+  duration: number;
+  wpm: number;
+  accuracy: number;
+  test_id: string;
+}
+
+export interface PersonalBestResult {
+  isPersonalBest: boolean;
+  previousWpm: number | null; // null for the first result in the bucket
+}
+
+/**
+ * Record a result if it beats the user's best for its bucket
+ */
+export async function updatePersonalBest(
+  input: PersonalBestInput,
+  db: Queryable = pool,
+): Promise<PersonalBestResult> {
+  const result = await db.query(
+    `WITH previous AS (
+      SELECT wpm FROM personal_bests
+      WHERE user_id = $1 AND difficulty = $2 AND mode = $3 AND duration = $4
+    )
+    INSERT INTO personal_bests (
+      user_id, difficulty, mode, duration, wpm, accuracy, test_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+    ON CONFLICT (user_id, difficulty, mode, duration) DO UPDATE
+    SET wpm = EXCLUDED.wpm,
+        accuracy = EXCLUDED.accuracy,
+        test_id = EXCLUDED.test_id,
+        set_at = CURRENT_TIMESTAMP
+    WHERE personal_bests.wpm < EXCLUDED.wpm
+    RETURNING (SELECT wpm FROM previous) AS previous_wpm`,
+    [
+      input.user_id,
+      input.difficulty,
+      input.mode,
+      input.duration,
+      input.wpm,
+      input.accuracy,
+      input.test_id,
+    ],
+  );
+
+  if (result.rows.length === 0) {
+    return { isPersonalBest: false, previousWpm: null };
+  }
+
+  const previous = result.rows[0].previous_wpm;
+  return {
+    isPersonalBest: true,
+    previousWpm: previous === null ? null : Number(previous),
+  };
+}
+
+/**
+ * Get all of a user's personal bests
+ */
+export async function getUserPersonalBests(
+  userId: string,
+): Promise<PersonalBest[]> {
+  const result = await pool.query(
+    `SELECT * FROM personal_bests
+     WHERE user_id = $1
+     ORDER BY mode, duration, difficulty`,
+    [userId],
+  );
+
+  return result.rows;
+}
+
+/**
+ * Recompute a user's personal bests from their unflagged tests
+ * Used when a review changes which tests count
+ */
+export async function rebuildPersonalBests(userId: string): Promise<void> {
+  await withTransaction(async (client) => {
+    await client.query("DELETE FROM personal_bests WHERE user_id = $1", [
+      userId,
+    ]);
+    await client.query(
+      `INSERT INTO personal_bests (
+        user_id, difficulty, mode, duration, wpm, accuracy, test_id, set_at
+      )
+      SELECT DISTINCT ON (difficulty, mode, mode_length)
+        user_id, difficulty, mode, mode_length, wpm, accuracy, id, created_at
+      FROM (
+        SELECT *,
+          CASE WHEN mode = 'words' THEN word_count ELSE duration END AS mode_length
+        FROM typing_tests
+        WHERE user_id = $1
+        AND NOT is_flagged
+      ) tests
+      WHERE mode_length IS NOT NULL
+      ORDER BY difficulty, mode, mode_length, wpm DESC, created_at ASC`,
+      [userId],
+    );
+  });
+}
+
+export default {
+  updatePersonalBest,
+  getUserPersonalBests,
+  rebuildPersonalBests,
+};
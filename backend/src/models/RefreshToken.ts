@@ -0,0 +1,243 @@
+import { createHash } from "crypto";
+import pool, { withTransaction } from "../config/database";
+
+/**
+ * Refresh Token Model/Service
+ * Stores refresh tokens hashed and rotates them on every use
+ */
+
+export interface RefreshToken {
+  id: string;
+  user_id: string;
+  token_hash: string;
+  family_id: string; // shared by every token rotated from one login
+  replaced_by: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  expires_at: Date;
+  created_at: Date;
+  revoked_at: Date | null;
+}
+
+export interface TokenClient {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+export interface Session {
+  id: string; // family_id
+  user_agent: string | null; // of the newest token
+  ip_address: string | null;
+  created_at: Date; // sign-in time
+  last_used_at: Date; // last refresh
+  expires_at: Date;
+}
+
+export type RotationResult =
+  | { status: "rotated"; token: RefreshToken }
+  | { status: "invalid" } // unknown or expired
+  | { status: "reused" }; // already rotated or revoked; family revoked
+
+/**
+ * Hash a token for storage; the raw token is never stored
+ */
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Store a refresh token that starts a new family (session)
+ */
+export async function createRefreshToken(
+  userId: string,
+  token: string,
+  expiresAt: Date,
+  familyId: string,
+  client: TokenClient,
+): Promise<RefreshToken> {
+  const result = await pool.query(
+    `INSERT INTO refresh_tokens (
+      user_id, token_hash, expires_at, family_id, user_agent, ip_address
+    ) VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING *`,
+    [
+      userId,
+      hashToken(token),
+      expiresAt,
+      familyId,
+      client.userAgent,
+      client.ipAddress,
+    ],
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Exchange a refresh token for its replacement
+ * The old token is revoked and the new one joins its family. Presenting a
+ * token that was already revoked revokes every token in the family
+ *
+ * @param token - Token presented by the client
+ * @param replacement - Newly issued token
+ * @param expiresAt - Expiry of the replacement
+ * @param client - Who is refreshing
+ */
+export async function rotateRefreshToken(
+  token: string,
+  replacement: string,
+  expiresAt: Date,
+  client: TokenClient,
+): Promise<RotationResult> {
+  return withTransaction(async (db) => {
+    // Lock the row so two refreshes with the same token can't both succeed
+    const existing = await db.query(
+      `SELECT *, expires_at <= CURRENT_TIMESTAMP AS expired
+       FROM refresh_tokens
+       WHERE token_hash = $1
+       FOR UPDATE`,
+      [hashToken(token)],
+    );
+    const current: (RefreshToken & { expired: boolean }) | undefined =
+      existing.rows[0];
+
+    if (!current) {
+      return { status: "invalid" };
+    }
+
+    if (current.revoked_at) {
+      await db.query(
+        `UPDATE refresh_tokens
+         SET revoked_at = CURRENT_TIMESTAMP
+         WHERE family_id = $1
+         AND revoked_at IS NULL`,
+        [current.family_id],
+      );
+      return { status: "reused" };
+    }
+
+    if (current.expired) {
+      return { status: "invalid" };
+    }
+
+    const inserted = await db.query(
+      `INSERT INTO refresh_tokens (
+        user_id, token_hash, expires_at, family_id, user_agent, ip_address
+      ) VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *`,
+      [
+        current.user_id,
+        hashToken(replacement),
+        expiresAt,
+        current.family_id,
+        client.userAgent,
+        client.ipAddress,
+      ],
+    );
+    const next: RefreshToken = inserted.rows[0];
+
+    await db.query(
+      `UPDATE refresh_tokens
+       SET revoked_at = CURRENT_TIMESTAMP,
+           replaced_by = $2
+       WHERE id = $1`,
+      [current.id, next.id],
+    );
+
+    return { status: "rotated", token: next };
+  });
+}
+
+/**
+ * Revoke a refresh token, e.g. on logout
+ *
+ * @returns Whether an active token was revoked
+ */
+export async function revokeRefreshToken(token: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE refresh_tokens
+     SET revoked_at = CURRENT_TIMESTAMP
+     WHERE token_hash = $1
+     AND revoked_at IS NULL`,
+    [hashToken(token)],
+  );
+
+  return (result.rowCount || 0) > 0;
+}
+
+/**
+ * Get a user's active sessions, most recently used first
+ * A session is active while its family has an unrevoked, unexpired token
+ */
+export async function getActiveSessions(userId: string): Promise<Session[]> {
+  const result = await pool.query(
+    `SELECT
+      family_id AS id,
+      (array_agg(user_agent ORDER BY created_at DESC))[1] AS user_agent,
+      (array_agg(ip_address ORDER BY created_at DESC))[1] AS ip_address,
+      MIN(created_at) AS created_at,
+      MAX(created_at) AS last_used_at,
+      MAX(expires_at) AS expires_at
+     FROM refresh_tokens
+     WHERE user_id = $1
+     GROUP BY family_id
+     HAVING bool_or(revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP)
+     ORDER BY last_used_at DESC`,
+    [userId],
+  );
+
+  return result.rows;
+}
+
+/**
+ * Revoke one of a user's sessions
+ *
+ * @returns Whether an active session was revoked
+ */
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE refresh_tokens
+     SET revoked_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1
+     AND family_id = $2
+     AND revoked_at IS NULL`,
+    [userId, sessionId],
+  );
+
+  return (result.rowCount || 0) > 0;
+}
+
+/**
+ * Revoke all of a user's sessions except one
+ *
+ * @param keepSessionId - Session to keep
+ * @returns Number of sessions revoked
+ */
+export async function revokeOtherSessions(
+  userId: string,
+  keepSessionId: string,
+): Promise<number> {
+  const result = await pool.query(
+    `UPDATE refresh_tokens
+     SET revoked_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1
+     AND family_id <> $2
+     AND revoked_at IS NULL
+     RETURNING family_id`,
+    [userId, keepSessionId],
+  );
+
+  return new Set(result.rows.map((row) => row.family_id)).size;
+}
+
+export default {
+  createRefreshToken,
+  rotateRefreshToken,
+  revokeRefreshToken,
+  getActiveSessions,
+  revokeSession,
+  revokeOtherSessions,
+};
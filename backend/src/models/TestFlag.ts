@@ -0,0 +1,109 @@
+import pool, { Queryable } from "../config/database";
+import { FlagReason } from "../utils/antiCheat";
+
+/**
+ * Test Flag Model/Service
+ * Handles the anti-cheat review queue
+ */
+
+export type FlagStatus = "pending" | "confirmed" | "cleared";
+
+export interface TestFlag {
+  id: string;
+  test_id: string;
+  user_id: string;
+  risk_score: number;
+  reasons: FlagReason[];
+  status: FlagStatus;
+  reviewed_by: string | null;
+  reviewed_at: Date | null;
+  created_at: Date;
+}
+
+export interface TestFlagDetail extends TestFlag {
+  username: string;
+  wpm: number;
+  accuracy: number;
+  test_created_at: Date;
+}
+
+/**
+ * Create a pending flag for a test
+ */
+export async function createTestFlag(
+  testId: string,
+  userId: string,
+  riskScore: number,
+  reasons: FlagReason[],
+  db: Queryable = pool,
+): Promise<TestFlag> {
+  const result = await db.query(
+    `INSERT INTO test_flags (test_id, user_id, risk_score, reasons)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [testId, userId, riskScore, JSON.stringify(reasons)],
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * List flags with their test and user, newest first
+ */
+export async function getFlags(
+  status: FlagStatus | null,
+  limit: number = 50,
+  offset: number = 0,
+): Promise<TestFlagDetail[]> {
+  const result = await pool.query(
+    `SELECT f.*,
+      u.username,
+      t.wpm,
+      t.accuracy,
+      t.created_at AS test_created_at
+     FROM test_flags f
+     JOIN users u ON u.id = f.user_id
+     JOIN typing_tests t ON t.id = f.test_id
+     WHERE ($1::varchar IS NULL OR f.status = $1)
+     ORDER BY f.created_at DESC
+     LIMIT $2 OFFSET $3`,
+    [status, limit, offset],
+  );
+
+  return result.rows;
+}
+
+/**
+ * Record a review decision
+ * Confirmed tests stay flagged; cleared tests count again
+ */
+export async function reviewFlag(
+  flagId: string,
+  status: Exclude<FlagStatus, "pending">,
+  reviewerId: string,
+): Promise<TestFlag | null> {
+  const result = await pool.query(
+    `WITH reviewed AS (
+      UPDATE test_flags
+      SET status = $2,
+          reviewed_by = $3,
+          reviewed_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+      RETURNING *
+    ), test AS (
+      UPDATE typing_tests
+      SET is_flagged = ($2 = 'confirmed')
+      WHERE id = (SELECT test_id FROM reviewed)
+    )
+    SELECT * FROM reviewed`,
+    [flagId, status, reviewerId],
+  );
+
+  return result.rows[0] || null;
+}
+
+export default {
+  createTestFlag,
+  getFlags,
+  reviewFlag,
+};
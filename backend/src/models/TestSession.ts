@@ -0,0 +1,122 @@
+import pool, { Queryable } from "../config/database";
+
+/**
+ * Test Session Model/Service
+ * Handles server-issued test prompts and their single-use lifecycle
+ */
+
+export interface TestSession {
+  id: string;
+  user_id: string;
+  text: string;
+  mode: string;
+  language: string;
+  difficulty: string;
+  test_type: string;
+  duration: number | null;
+  word_count: number | null;
+  started_at: Date;
+  expires_at: Date;
+  consumed_at: Date | null;
+}
+
+export interface ConsumedTestSession extends TestSession {
+  elapsed_seconds: number; // wall-clock time between issue and submit
+}
+
+export interface CreateSessionInput {
+  user_id: string;
+  text: string;
+  mode: string;
+  language: string;
+  difficulty: string;
+  test_type: string;
+  duration?: number | null;
+  word_count?: number | null;
+  ttl_seconds: number;
+}
+
+/**
+ * Create new test session
+ */
+export async function createTestSession(
+  input: CreateSessionInput,
+): Promise<TestSession> {
+  const {
+    user_id,
+    text,
+    mode,
+    language,
+    difficulty,
+    test_type,
+    duration = null,
+    word_count = null,
+    ttl_seconds,
+  } = input;
+
+  const result = await pool.query(
+    `INSERT INTO test_sessions (
+      user_id, text, mode, language, difficulty, test_type,
+      duration, word_count, expires_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CURRENT_TIMESTAMP + INTERVAL '1 second' * $9)
+    RETURNING *`,
+    [
+      user_id,
+      text,
+      mode,
+      language,
+      difficulty,
+      test_type,
+      duration,
+      word_count,
+      ttl_seconds,
+    ],
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Get session owned by a user
+ */
+export async function getTestSession(
+  id: string,
+  userId: string,
+): Promise<TestSession | null> {
+  const result = await pool.query(
+    "SELECT * FROM test_sessions WHERE id = $1 AND user_id = $2",
+    [id, userId],
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Mark a session as used
+ * Atomic: only one submission can consume a live session
+ */
+export async function consumeTestSession(
+  id: string,
+  userId: string,
+  db: Queryable = pool,
+): Promise<ConsumedTestSession | null> {
+  const result = await db.query(
+    `UPDATE test_sessions
+     SET consumed_at = CURRENT_TIMESTAMP
+     WHERE id = $1
+     AND user_id = $2
+     AND consumed_at IS NULL
+     AND expires_at > CURRENT_TIMESTAMP
+     RETURNING *,
+       EXTRACT(EPOCH FROM (consumed_at - started_at))::float AS elapsed_seconds`,
+    [id, userId],
+  );
+
+  return result.rows[0] || null;
+}
+
+export default {
+  createTestSession,
+  getTestSession,
+  consumeTestSession,
+};
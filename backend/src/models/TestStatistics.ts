@@ -1,4 +1,5 @@
-import pool from "../config/database";
+import pool, { Queryable, withTransaction } from "../config/database";
+import { TypingTest } from "./TypingTest";
 
 /**
  * Test Statistics Model/Service
@@ -14,14 +15,50 @@ export interface TestStatistics {
   min_wpm: number;
   avg_accuracy: number;
   avg_consistency: number;
+  wpm_sum: number; // running sums behind the averages
+  accuracy_sum: number;
+  consistency_sum: number;
+  consistency_count: number; // tests with a consistency score
   tests_easy: number;
   tests_normal: number;
   tests_hard: number;
   current_streak: number;
   longest_streak: number;
+  last_test_date: string | null; // YYYY-MM-DD of the most recent test, in the user's time zone
   updated_at: Date;
 }
 
+export const BREAKDOWN_DIMENSIONS = [
+  "mode",
+  "duration",
+  "language",
+  "test_type",
+] as const;
+
+export type BreakdownDimension = (typeof BREAKDOWN_DIMENSIONS)[number];
+
+// Duration is the mode length: seconds for time mode, word count for words mode
+const DIMENSION_COLUMNS: Record<BreakdownDimension, string> = {
+  mode: "mode",
+  duration: "CASE WHEN mode = 'words' THEN word_count ELSE duration END",
+  language: "language",
+  test_type: "test_type",
+};
+
+export interface StatisticsBreakdown {
+  mode?: string;
+  duration?: number | null;
+  language?: string;
+  test_type?: string;
+  tests: number;
+  time_typing: number; // seconds
+  avg_wpm: number | null; // null when every test in the group is flagged
+  best_wpm: number | null;
+  avg_accuracy: number | null;
+  best_accuracy: number | null;
+  avg_consistency: number | null;
+}
+
 /**
  * Get user statistics
  */
@@ -54,68 +91,266 @@ export async function initializeStatistics(
 }
 
 /**
- * Recalculate statistics for a user from their tests
- * Run after completing a new test
+ * Aggregate a user's tests grouped by one or more dimensions
+ * Averages and bests skip flagged tests; counts and time include them
+ *
+ * @param groupBy - Dimensions to group by, in output order
+ */
+export async function getStatisticsBreakdown(
+  userId: string,
+  groupBy: BreakdownDimension[],
+): Promise<StatisticsBreakdown[]> {
+  const columns = groupBy
+    .map((dimension) => `${DIMENSION_COLUMNS[dimension]} AS ${dimension},`)
+    .join(" ");
+  const positions = groupBy.map((_, i) => i + 1).join(", ");
+
+  const result = await pool.query(
+    `SELECT
+      ${columns}
+      COUNT(*)::int AS tests,
+      COALESCE(SUM(duration_actual), 0)::int AS time_typing,
+      ROUND(AVG(wpm) FILTER (WHERE NOT is_flagged), 2) AS avg_wpm,
+      MAX(wpm) FILTER (WHERE NOT is_flagged) AS best_wpm,
+      ROUND(AVG(accuracy) FILTER (WHERE NOT is_flagged), 2) AS avg_accuracy,
+      MAX(accuracy) FILTER (WHERE NOT is_flagged) AS best_accuracy,
+      ROUND(AVG(consistency) FILTER (WHERE NOT is_flagged), 2) AS avg_consistency
+     FROM typing_tests
+     WHERE user_id = $1
+     GROUP BY ${positions}
+     ORDER BY ${positions}`,
+    [userId],
+  );
+
+  return result.rows;
+}
+
+/**
+ * Fold one new test into the user's running statistics
+ * Run in the same transaction as the test insert. The upsert locks the
+ * statistics row, so concurrent submissions apply one after the other
+ */
+export async function applyTestToStatistics(
+  test: TypingTest,
+  db: Queryable = pool,
+): Promise<TestStatistics> {
+  const result = await db.query(
+    `INSERT INTO test_statistics AS s (
+      user_id, total_tests, total_time_typing,
+      wpm_sum, avg_wpm, max_wpm, min_wpm,
+      accuracy_sum, avg_accuracy,
+      consistency_sum, consistency_count, avg_consistency,
+      tests_easy, tests_normal, tests_hard, updated_at
+    ) VALUES (
+      $1, 1, COALESCE($2::int, 0),
+      $3::numeric, $3::numeric, CASE WHEN $4::boolean THEN 0 ELSE $3::numeric END, $3::numeric,
+      $5::numeric, $5::numeric,
+      COALESCE($6::numeric, 0), CASE WHEN $6::numeric IS NULL THEN 0 ELSE 1 END, COALESCE($6::numeric, 0),
+      CASE WHEN $7 = 'easy' THEN 1 ELSE 0 END,
+      CASE WHEN $7 = 'normal' THEN 1 ELSE 0 END,
+      CASE WHEN $7 = 'hard' THEN 1 ELSE 0 END,
+      CURRENT_TIMESTAMP
+    )
+    ON CONFLICT (user_id) DO UPDATE SET
+      total_tests = s.total_tests + 1,
+      total_time_typing = s.total_time_typing + EXCLUDED.total_time_typing,
+      wpm_sum = s.wpm_sum + EXCLUDED.wpm_sum,
+      avg_wpm = ROUND((s.wpm_sum + EXCLUDED.wpm_sum) / (s.total_tests + 1), 2),
+      max_wpm = GREATEST(s.max_wpm, EXCLUDED.max_wpm),
+      min_wpm = CASE
+        WHEN s.total_tests = 0 THEN EXCLUDED.min_wpm
+        ELSE LEAST(s.min_wpm, EXCLUDED.min_wpm)
+      END,
+      accuracy_sum = s.accuracy_sum + EXCLUDED.accuracy_sum,
+      avg_accuracy = ROUND((s.accuracy_sum + EXCLUDED.accuracy_sum) / (s.total_tests + 1), 2),
+      consistency_sum = s.consistency_sum + EXCLUDED.consistency_sum,
+      consistency_count = s.consistency_count + EXCLUDED.consistency_count,
+      avg_consistency = COALESCE(ROUND(
+        (s.consistency_sum + EXCLUDED.consistency_sum)
+          / NULLIF(s.consistency_count + EXCLUDED.consistency_count, 0),
+        2
+      ), 0),
+      tests_easy = s.tests_easy + EXCLUDED.tests_easy,
+      tests_normal = s.tests_normal + EXCLUDED.tests_normal,
+      tests_hard = s.tests_hard + EXCLUDED.tests_hard,
+      updated_at = CURRENT_TIMESTAMP
+    RETURNING *`,
+    [
+      test.user_id,
+      test.duration_actual,
+      test.wpm,
+      test.is_flagged,
+      test.accuracy,
+      test.consistency,
+      test.difficulty,
+    ],
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Recompute a user's statistics and streaks from all of their tests
+ * Repairs drift in the running totals, and runs after a review changes
+ * which tests count. The statistics row stays locked until the rewrite
+ * commits, so submissions made meanwhile are applied on top of it
  */
 export async function recalculateStatistics(
   userId: string,
 ): Promise<TestStatistics> {
-  // Get all tests for user
-  const testsResult = await pool.query(
-    `SELECT 
-      COUNT(*) as total_tests,
-      SUM(CASE WHEN difficulty = 'easy' THEN 1 ELSE 0 END) as tests_easy,
-      SUM(CASE WHEN difficulty = 'normal' THEN 1 ELSE 0 END) as tests_normal,
-      SUM(CASE WHEN difficulty = 'hard' THEN 1 ELSE 0 END) as tests_hard,
-      SUM(duration_actual) as total_time_typing,
-      ROUND(AVG(wpm)::numeric, 2) as avg_wpm,
-      MAX(wpm) as max_wpm,
-      MIN(wpm) as min_wpm,
-      ROUND(AVG(accuracy)::numeric, 2) as avg_accuracy,
-      ROUND(AVG(consistency)::numeric, 2) as avg_consistency
-     FROM typing_tests 
-     WHERE user_id = $1`,
+  return withTransaction(async (client) => {
+    await client.query(
+      `INSERT INTO test_statistics (user_id)
+       VALUES ($1)
+       ON CONFLICT (user_id) DO NOTHING`,
+      [userId],
+    );
+    // Take the lock before reading tests, so the totals see every test
+    // whose increment has already been applied
+    await client.query(
+      "SELECT 1 FROM test_statistics WHERE user_id = $1 FOR UPDATE",
+      [userId],
+    );
+
+    const result = await client.query(
+      `WITH totals AS (
+        SELECT
+          COUNT(*) AS total_tests,
+          COUNT(*) FILTER (WHERE difficulty = 'easy') AS tests_easy,
+          COUNT(*) FILTER (WHERE difficulty = 'normal') AS tests_normal,
+          COUNT(*) FILTER (WHERE difficulty = 'hard') AS tests_hard,
+          COALESCE(SUM(duration_actual), 0) AS total_time_typing,
+          COALESCE(SUM(wpm), 0) AS wpm_sum,
+          COALESCE(ROUND(AVG(wpm), 2), 0) AS avg_wpm,
+          COALESCE(MAX(wpm) FILTER (WHERE NOT is_flagged), 0) AS max_wpm,
+          COALESCE(MIN(wpm), 0) AS min_wpm,
+          COALESCE(SUM(accuracy), 0) AS accuracy_sum,
+          COALESCE(ROUND(AVG(accuracy), 2), 0) AS avg_accuracy,
+          COALESCE(SUM(consistency), 0) AS consistency_sum,
+          COUNT(consistency) AS consistency_count,
+          COALESCE(ROUND(AVG(consistency), 2), 0) AS avg_consistency
+        FROM typing_tests
+        WHERE user_id = $1
+      ), zone AS (
+        SELECT COALESCE(p.timezone, 'UTC') AS name
+        FROM users u
+        LEFT JOIN user_preferences p ON p.user_id = u.id
+        WHERE u.id = $1
+      ), days AS (
+        -- Local calendar days with at least one test
+        SELECT DISTINCT
+          (t.created_at AT TIME ZONE current_setting('TimeZone') AT TIME ZONE zone.name)::date AS day
+        FROM typing_tests t, zone
+        WHERE t.user_id = $1
+      ), runs AS (
+        -- Consecutive days share the same day minus row number
+        SELECT MAX(day) AS last_day, COUNT(*)::int AS length
+        FROM (SELECT day, day - (ROW_NUMBER() OVER (ORDER BY day))::int AS run FROM days) d
+        GROUP BY run
+      ), streaks AS (
+        SELECT
+          COALESCE(MAX(runs.length), 0) AS longest_streak,
+          MAX(runs.last_day) AS last_test_date,
+          COALESCE(MAX(runs.length) FILTER (
+            WHERE runs.last_day >= (CURRENT_TIMESTAMP AT TIME ZONE zone.name)::date - 1
+          ), 0) AS current_streak
+        FROM runs, zone
+      )
+      UPDATE test_statistics s
+      SET total_tests = totals.total_tests,
+          total_time_typing = totals.total_time_typing,
+          wpm_sum = totals.wpm_sum,
+          avg_wpm = totals.avg_wpm,
+          max_wpm = totals.max_wpm,
+          min_wpm = totals.min_wpm,
+          accuracy_sum = totals.accuracy_sum,
+          avg_accuracy = totals.avg_accuracy,
+          consistency_sum = totals.consistency_sum,
+          consistency_count = totals.consistency_count,
+          avg_consistency = totals.avg_consistency,
+          tests_easy = totals.tests_easy,
+          tests_normal = totals.tests_normal,
+          tests_hard = totals.tests_hard,
+          current_streak = streaks.current_streak,
+          longest_streak = streaks.longest_streak,
+          last_test_date = streaks.last_test_date,
+          updated_at = CURRENT_TIMESTAMP
+      FROM totals, streaks
+      WHERE s.user_id = $1
+      RETURNING s.*`,
+      [userId],
+    );
+
+    return result.rows[0];
+  });
+}
+
+/**
+ * Count a completed test towards the user's daily streak
+ * A test on the day after the last one extends the streak, a test on the
+ * same day keeps it, anything later starts a new one
+ */
+export async function updateStreak(
+  userId: string,
+  db: Queryable = pool,
+): Promise<TestStatistics | null> {
+  const result = await db.query(
+    `WITH today AS (
+      SELECT (CURRENT_TIMESTAMP AT TIME ZONE COALESCE(p.timezone, 'UTC'))::date AS day
+      FROM users u
+      LEFT JOIN user_preferences p ON p.user_id = u.id
+      WHERE u.id = $1
+    ), streak AS (
+      SELECT
+        CASE
+          WHEN s.last_test_date >= today.day THEN s.current_streak
+          WHEN s.last_test_date = today.day - 1 THEN s.current_streak + 1
+          ELSE 1
+        END AS current_streak,
+        today.day
+      FROM test_statistics s, today
+      WHERE s.user_id = $1
+    )
+    UPDATE test_statistics s
+    SET current_streak = streak.current_streak,
+        longest_streak = GREATEST(s.longest_streak, streak.current_streak),
+        last_test_date = GREATEST(s.last_test_date, streak.day),
+        updated_at = CURRENT_TIMESTAMP
+    FROM streak
+    WHERE s.user_id = $1
+    RETURNING s.*`,
     [userId],
   );
 
-  const stats = testsResult.rows[0];
+  return result.rows[0] || null;
+}
 
-  // Update statistics
+/**
+ * Reset streaks whose last test was before yesterday in the user's time zone
+ *
+ * @returns Number of streaks reset
+ */
+export async function resetLapsedStreaks(): Promise<number> {
   const result = await pool.query(
-    `UPDATE test_statistics 
-     SET total_tests = $2,
-         total_time_typing = COALESCE($3, 0),
-         avg_wpm = COALESCE($4, 0),
-         max_wpm = COALESCE($5, 0),
-         min_wpm = COALESCE($6, 0),
-         avg_accuracy = COALESCE($7, 0),
-         avg_consistency = COALESCE($8, 0),
-         tests_easy = COALESCE($9, 0),
-         tests_normal = COALESCE($10, 0),
-         tests_hard = COALESCE($11, 0),
+    `UPDATE test_statistics s
+     SET current_streak = 0,
          updated_at = CURRENT_TIMESTAMP
-     WHERE user_id = $1
-     RETURNING *`,
-    [
-      userId,
-      stats.total_tests,
-      stats.total_time_typing,
-      stats.avg_wpm,
-      stats.max_wpm,
-      stats.min_wpm,
-      stats.avg_accuracy,
-      stats.avg_consistency,
-      stats.tests_easy,
-      stats.tests_normal,
-      stats.tests_hard,
-    ],
+     FROM users u
+     LEFT JOIN user_preferences p ON p.user_id = u.id
+     WHERE u.id = s.user_id
+     AND s.current_streak > 0
+     AND s.last_test_date < (CURRENT_TIMESTAMP AT TIME ZONE COALESCE(p.timezone, 'UTC'))::date - 1`,
   );
 
-  return result.rows[0];
+  return result.rowCount || 0;
 }
 
 export default {
   getUserStatistics,
+  getStatisticsBreakdown,
   initializeStatistics,
+  applyTestToStatistics,
   recalculateStatistics,
+  updateStreak,
+  resetLapsedStreaks,
 };
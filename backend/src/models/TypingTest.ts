@@ -1,4 +1,6 @@
-import pool from "../config/database";
+import pool, { Queryable } from "../config/database";
+import { WpmSeriesPoint } from "../utils/typingCalculations";
+import { FlagReason } from "../utils/antiCheat";
 
 /**
  * Typing Test Model/Service
@@ -25,11 +27,23 @@ export interface TypingTest {
   race_id: string | null;
   position_in_race: number | null;
   input_history: any;
+  wpm_series: WpmSeriesPoint[] | null;
+  session_id: string | null;
+  word_count: number | null;
+  risk_score: number;
+  flag_reasons: FlagReason[] | null;
+  is_flagged: boolean;
   created_at: Date;
   completed_at: Date | null;
   duration_actual: number | null;
 }
 
+export interface TypingTestDetail extends TypingTest {
+  username: string;
+  profile_public: boolean;
+  original_text: string | null;
+}
+
 export interface CreateTestInput {
   user_id: string;
   duration: number;
@@ -47,14 +61,22 @@ export interface CreateTestInput {
   missed_characters: number;
   consistency?: number;
   input_history?: any;
+  wpm_series?: WpmSeriesPoint[] | null;
   duration_actual?: number;
+  session_id?: string;
+  word_count?: number | null;
+  risk_score?: number;
+  flag_reasons?: FlagReason[] | null;
+  is_flagged?: boolean;
 }
 
 /**
  * Create new typing test record
+ * Pass a transaction client to insert alongside other writes
  */
 export async function createTypingTest(
   input: CreateTestInput,
+  db: Queryable = pool,
 ): Promise<TypingTest> {
   const {
     user_id,
@@ -73,16 +95,23 @@ export async function createTypingTest(
     missed_characters,
     consistency,
     input_history,
+    wpm_series = null,
     duration_actual,
+    session_id = null,
+    word_count = null,
+    risk_score = 0,
+    flag_reasons = null,
+    is_flagged = false,
   } = input;
 
-  const result = await pool.query(
+  const result = await db.query(
     `INSERT INTO typing_tests (
       user_id, duration, difficulty, language, mode, test_type,
       wpm, accuracy, raw_wpm, characters_typed, correct_characters,
       incorrect_characters, extra_characters, missed_characters,
-      consistency, input_history, completed_at, duration_actual
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, CURRENT_TIMESTAMP, $17)
+      consistency, input_history, completed_at, duration_actual,
+      session_id, word_count, wpm_series, risk_score, flag_reasons, is_flagged
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, CURRENT_TIMESTAMP, $17, $18, $19, $20, $21, $22, $23)
     RETURNING *`,
     [
       user_id,
@@ -100,8 +129,14 @@ export async function createTypingTest(
       extra_characters,
       missed_characters,
       consistency,
-      input_history,
+      input_history ? JSON.stringify(input_history) : null,
       duration_actual,
+      session_id,
+      word_count,
+      wpm_series ? JSON.stringify(wpm_series) : null,
+      risk_score,
+      flag_reasons ? JSON.stringify(flag_reasons) : null,
+      is_flagged,
     ],
   );
 
@@ -127,6 +162,28 @@ export async function getUserTestHistory(
   return result.rows;
 }
 
+/**
+ * Get test by ID with owner and prompt details
+ */
+export async function getTestById(
+  testId: string,
+): Promise<TypingTestDetail | null> {
+  const result = await pool.query(
+    `SELECT t.*,
+      u.username,
+      COALESCE(p.profile_public, false) AS profile_public,
+      s.text AS original_text
+     FROM typing_tests t
+     JOIN users u ON u.id = t.user_id
+     LEFT JOIN user_preferences p ON p.user_id = t.user_id
+     LEFT JOIN test_sessions s ON s.id = t.session_id
+     WHERE t.id = $1`,
+    [testId],
+  );
+
+  return result.rows[0] || null;
+}
+
 /**
  * Get user's tests by difficulty
  */
@@ -146,6 +203,7 @@ export async function getUserTestsByDifficulty(
 
 /**
  * Get best WPM test for user
+ * Flagged tests never count as a best
  */
 export async function getBestWpmTest(
   userId: string,
@@ -153,6 +211,7 @@ export async function getBestWpmTest(
   const result = await pool.query(
     `SELECT * FROM typing_tests 
      WHERE user_id = $1 
+     AND NOT is_flagged
      ORDER BY wpm DESC 
      LIMIT 1`,
     [userId],
@@ -161,6 +220,54 @@ export async function getBestWpmTest(
   return result.rows[0] || null;
 }
 
+export interface UnflaggedTotals {
+  tests: number;
+  time_typing: number; // seconds
+  current_streak: number; // days, in the user's time zone
+}
+
+/**
+ * Get a user's test count, typing time and daily streak over unflagged tests
+ * Pass a transaction client to include a test that is not yet committed
+ */
+export async function getUnflaggedTotals(
+  userId: string,
+  db: Queryable = pool,
+): Promise<UnflaggedTotals> {
+  const result = await db.query(
+    `WITH zone AS (
+      SELECT COALESCE(p.timezone, 'UTC') AS name
+      FROM users u
+      LEFT JOIN user_preferences p ON p.user_id = u.id
+      WHERE u.id = $1
+    ), tests AS (
+      SELECT created_at, duration_actual
+      FROM typing_tests
+      WHERE user_id = $1
+      AND NOT is_flagged
+    ), days AS (
+      SELECT DISTINCT
+        (tests.created_at AT TIME ZONE current_setting('TimeZone') AT TIME ZONE zone.name)::date AS day
+      FROM tests, zone
+    ), runs AS (
+      -- Consecutive days share the same day minus row number
+      SELECT MAX(day) AS last_day, COUNT(*)::int AS length
+      FROM (SELECT day, day - (ROW_NUMBER() OVER (ORDER BY day))::int AS run FROM days) d
+      GROUP BY run
+    )
+    SELECT
+      (SELECT COUNT(*)::int FROM tests) AS tests,
+      (SELECT COALESCE(SUM(duration_actual), 0)::int FROM tests) AS time_typing,
+      COALESCE(MAX(runs.length) FILTER (
+        WHERE runs.last_day >= (CURRENT_TIMESTAMP AT TIME ZONE zone.name)::date - 1
+      ), 0)::int AS current_streak
+    FROM runs, zone`,
+    [userId],
+  );
+
+  return result.rows[0];
+}
+
 /**
  * Get recent tests for dashboard
  */
@@ -179,10 +286,97 @@ export async function getRecentTests(
   return result.rows;
 }
 
+export const PROGRESS_INTERVALS = ["day", "week", "month"] as const;
+
+export type ProgressInterval = (typeof PROGRESS_INTERVALS)[number];
+
+export interface ProgressOptions {
+  interval: ProgressInterval;
+  days: number; // how far back to look
+  window: number; // buckets in the moving average
+  mode?: string;
+  duration?: number; // seconds in time mode, word count in words mode
+  difficulty?: string;
+}
+
+export interface ProgressBucket {
+  bucket: string; // YYYY-MM-DD start of the day, week or month
+  tests: number;
+  avg_wpm: number;
+  best_wpm: number;
+  avg_accuracy: number;
+  time_typing: number; // seconds
+  moving_avg_wpm: number; // over this bucket and the window - 1 before it
+}
+
+/**
+ * Get a user's tests aggregated into day, week or month buckets
+ * Buckets follow the user's time zone and skip periods without tests.
+ * Flagged tests are left out. The moving average weighs each bucket by
+ * its test count
+ */
+export async function getProgress(
+  userId: string,
+  options: ProgressOptions,
+): Promise<ProgressBucket[]> {
+  const result = await pool.query(
+    `WITH zone AS (
+      SELECT COALESCE(p.timezone, 'UTC') AS name
+      FROM users u
+      LEFT JOIN user_preferences p ON p.user_id = u.id
+      WHERE u.id = $1
+    ), buckets AS (
+      SELECT
+        date_trunc(
+          $2,
+          t.created_at AT TIME ZONE current_setting('TimeZone') AT TIME ZONE zone.name
+        )::date AS bucket,
+        COUNT(*)::int AS tests,
+        SUM(t.wpm) AS wpm_sum,
+        MAX(t.wpm) AS best_wpm,
+        ROUND(AVG(t.accuracy), 2) AS avg_accuracy,
+        COALESCE(SUM(t.duration_actual), 0)::int AS time_typing
+      FROM typing_tests t, zone
+      WHERE t.user_id = $1
+      AND NOT t.is_flagged
+      AND t.created_at > CURRENT_TIMESTAMP - INTERVAL '1 day' * $3
+      AND ($4::text IS NULL OR t.mode = $4)
+      AND ($5::int IS NULL OR CASE WHEN t.mode = 'words' THEN t.word_count ELSE t.duration END = $5)
+      AND ($6::text IS NULL OR t.difficulty = $6)
+      GROUP BY 1
+    )
+    SELECT
+      bucket,
+      tests,
+      ROUND(wpm_sum / tests, 2) AS avg_wpm,
+      best_wpm,
+      avg_accuracy,
+      time_typing,
+      ROUND(SUM(wpm_sum) OVER recent / SUM(tests) OVER recent, 2) AS moving_avg_wpm
+    FROM buckets
+    WINDOW recent AS (ORDER BY bucket ROWS BETWEEN $7::int PRECEDING AND CURRENT ROW)
+    ORDER BY bucket`,
+    [
+      userId,
+      options.interval,
+      options.days,
+      options.mode ?? null,
+      options.duration ?? null,
+      options.difficulty ?? null,
+      options.window - 1,
+    ],
+  );
+
+  return result.rows;
+}
+
 export default {
   createTypingTest,
   getUserTestHistory,
+  getTestById,
   getUserTestsByDifficulty,
   getBestWpmTest,
+  getUnflaggedTotals,
   getRecentTests,
+  getProgress,
 };
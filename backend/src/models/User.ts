@@ -19,6 +19,7 @@ export interface User {
   last_login: Date | null;
   is_active: boolean;
   email_verified: boolean;
+  is_admin: boolean;
 }
 
 export interface CreateUserInput {
@@ -65,6 +66,21 @@ export async function findUserById(id: string): Promise<User | null> {
   return result.rows[0] || null;
 }
 
+/**
+ * Check whether a user's profile is public
+ * Returns null when the user does not exist
+ */
+export async function isProfilePublic(id: string): Promise<boolean | null> {
+  const result = await pool.query(
+    `SELECT COALESCE(p.profile_public, false) AS profile_public
+     FROM users u
+     LEFT JOIN user_preferences p ON p.user_id = u.id
+     WHERE u.id = $1`,
+    [id],
+  );
+  return result.rows[0] ? result.rows[0].profile_public : null;
+}
+
 /**
  * Find user by username
  */
@@ -148,6 +164,7 @@ export async function updateLastLogin(id: string): Promise<void> {
 export default {
   createUser,
   findUserById,
+  isProfilePublic,
   findUserByUsername,
   findUserByEmail,
   validateCredentials,
@@ -0,0 +1,157 @@
+import pool from "../config/database";
+import { CustomTheme } from "../utils/customTheme";
+
+/**
+ * User Preferences Model/Service
+ * Handles theme, typing and privacy settings
+ */
+
+export interface UserPreferences {
+  user_id: string;
+  theme: string; // 'dark', 'light', 'custom'
+  custom_theme_config: CustomTheme | null;
+  enable_sounds: boolean;
+  enable_animations: boolean;
+  language: string;
+  notification_email: boolean;
+  font_size: number;
+  font_family: string;
+  caret_style: string; // 'line', 'block', 'underline'
+  show_live_wpm: boolean;
+  show_live_accuracy: boolean;
+  default_test_duration: number; // seconds
+  default_difficulty: string;
+  default_language: string;
+  profile_public: boolean;
+  show_on_leaderboard: boolean;
+  timezone: string; // IANA name
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type PreferencesUpdate = Partial<
+  Omit<UserPreferences, "user_id" | "created_at" | "updated_at">
+>;
+
+// Columns a user may change
+export const EDITABLE_PREFERENCES = [
+  "theme",
+  "custom_theme_config",
+  "enable_sounds",
+  "enable_animations",
+  "language",
+  "notification_email",
+  "font_size",
+  "font_family",
+  "caret_style",
+  "show_live_wpm",
+  "show_live_accuracy",
+  "default_test_duration",
+  "default_difficulty",
+  "default_language",
+  "profile_public",
+  "show_on_leaderboard",
+  "timezone",
+] as const;
+
+/**
+ * Initialize user preferences with the column defaults
+ */
+export async function initializePreferences(
+  userId: string,
+): Promise<UserPreferences> {
+  const result = await pool.query(
+    `INSERT INTO user_preferences (user_id)
+     VALUES ($1)
+     ON CONFLICT (user_id) DO NOTHING
+     RETURNING *`,
+    [userId],
+  );
+
+  return result.rows[0];
+}
+
+/**
+ * Get user preferences
+ */
+export async function getPreferences(
+  userId: string,
+): Promise<UserPreferences | null> {
+  const result = await pool.query(
+    "SELECT * FROM user_preferences WHERE user_id = $1",
+    [userId],
+  );
+
+  return result.rows[0] || null;
+}
+
+/**
+ * Update user preferences
+ * Only the fields present in updates change; null clears a nullable field
+ */
+export async function updatePreferences(
+  userId: string,
+  updates: PreferencesUpdate,
+): Promise<UserPreferences | null> {
+  const columns = EDITABLE_PREFERENCES.filter(
+    (column) => updates[column] !== undefined,
+  );
+  const assignments = columns.map((column, i) => `${column} = $${i + 2}`);
+
+  const result = await pool.query(
+    `UPDATE user_preferences
+     SET ${[...assignments, "updated_at = CURRENT_TIMESTAMP"].join(",\n         ")}
+     WHERE user_id = $1
+     RETURNING *`,
+    [
+      userId,
+      ...columns.map((column) => {
+        const value = updates[column];
+        // JSONB columns take serialized values
+        return value !== null && typeof value === "object"
+          ? JSON.stringify(value)
+          : value;
+      }),
+    ],
+  );
+
+  return result.rows[0] || null;
+}
+
+export interface SharedTheme extends CustomTheme {
+  username: string;
+  updated_at: Date;
+}
+
+/**
+ * Get custom themes users shared with the community, newest first
+ */
+export async function getSharedThemes(
+  limit: number = 50,
+  offset: number = 0,
+): Promise<SharedTheme[]> {
+  const result = await pool.query(
+    `SELECT
+      u.username,
+      p.custom_theme_config->>'name' AS name,
+      p.custom_theme_config->'colors' AS colors,
+      true AS shared,
+      p.updated_at
+     FROM user_preferences p
+     JOIN users u ON u.id = p.user_id
+     WHERE (p.custom_theme_config->>'shared')::boolean
+     AND COALESCE(u.is_active, true)
+     ORDER BY p.updated_at DESC
+     LIMIT $1 OFFSET $2`,
+    [limit, offset],
+  );
+
+  return result.rows;
+}
+
+export default {
+  initializePreferences,
+  getPreferences,
+  updatePreferences,
+  getSharedThemes,
+};
@@ -0,0 +1,36 @@
+import pool from "../config/database";
+
+/**
+ * Word List Model/Service
+ * Handles word pools used to generate test text
+ */
+
+export interface WordList {
+  id: string;
+  name: string;
+  language: string;
+  difficulty: string;
+  words: string[];
+  word_count: number;
+  created_at: Date;
+}
+
+/**
+ * Get word list for a language and difficulty
+ */
+export async function getWordList(
+  language: string,
+  difficulty: string,
+): Promise<WordList | null> {
+  const result = await pool.query(
+    `SELECT * FROM word_lists
+     WHERE language = $1 AND difficulty = $2`,
+    [language, difficulty],
+  );
+
+  return result.rows[0] || null;
+}
+
+export default {
+  getWordList,
+};
@@ -0,0 +1,52 @@
+import { Router } from "express";
+import { param, query } from "express-validator";
+import * as adminController from "../controllers/adminController";
+import { authenticateToken, requireAdmin } from "../middleware/auth";
+
+/**
+ * Admin Routes
+ * Every route requires an authenticated admin
+ */
+
+const router = Router();
+
+router.use(authenticateToken, requireAdmin);
+
+/**
+ * GET /api/admin/flags
+ * List flagged tests for review
+ */
+router.get(
+  "/flags",
+  [
+    query("status")
+      .optional()
+      .isIn(["pending", "confirmed", "cleared", "all"])
+      .withMessage("Invalid status"),
+    query("limit").optional().isInt({ min: 1, max: 100 }),
+    query("offset").optional().isInt({ min: 0 }),
+  ],
+  adminController.getFlags,
+);
+
+/**
+ * POST /api/admin/flags/:flagId/confirm
+ * Confirm a flag; the test stays off leaderboards and personal bests
+ */
+router.post(
+  "/flags/:flagId/confirm",
+  [param("flagId").isUUID().withMessage("Invalid flag ID")],
+  adminController.confirmFlag,
+);
+
+/**
+ * POST /api/admin/flags/:flagId/clear
+ * Clear a flag; the test counts again
+ */
+router.post(
+  "/flags/:flagId/clear",
+  [param("flagId").isUUID().withMessage("Invalid flag ID")],
+  adminController.clearFlag,
+);
+
+export default router;
@@ -1,5 +1,5 @@
 import { Router } from "express";
-import { body } from "express-validator";
+import { body, param } from "express-validator";
 import * as authController from "../controllers/authController";
 import { authenticateToken } from "../middleware/auth";
 
@@ -47,6 +47,53 @@ router.post(
   authController.login,
 );
 
+/**
+ * POST /api/auth/refresh
+ * Exchange a refresh token for a new token pair
+ */
+router.post(
+  "/refresh",
+  [body("refreshToken").isJWT().withMessage("Refresh token is required")],
+  authController.refresh,
+);
+
+/**
+ * POST /api/auth/logout
+ * Revoke the given refresh token
+ */
+router.post(
+  "/logout",
+  [body("refreshToken").isJWT().withMessage("Refresh token is required")],
+  authController.logout,
+);
+
+/**
+ * GET /api/auth/sessions
+ * List the current user's active sessions
+ */
+router.get("/sessions", authenticateToken, authController.getSessions);
+
+/**
+ * DELETE /api/auth/sessions
+ * Revoke every session except the current one
+ */
+router.delete(
+  "/sessions",
+  authenticateToken,
+  authController.revokeOtherSessions,
+);
+
+/**
+ * DELETE /api/auth/sessions/:sessionId
+ * Revoke one session
+ */
+router.delete(
+  "/sessions/:sessionId",
+  authenticateToken,
+  [param("sessionId").isUUID()],
+  authController.revokeSession,
+);
+
 /**
  * GET /api/auth/me
  * Get current authenticated user
@@ -1,6 +1,8 @@
 import { Router } from "express";
+import { param, query } from "express-validator";
 import * as leaderboardController from "../controllers/leaderboardController";
-import { optionalAuth } from "../middleware/auth";
+import { authenticateToken, optionalAuth } from "../middleware/auth";
+import { LEADERBOARD_PERIODS } from "../models/Leaderboard";
 
 /**
  * Leaderboard Routes
@@ -8,16 +10,64 @@ import { optionalAuth } from "../middleware/auth";
 
 const router = Router();
 
+// Selects one board: period, mode, duration or word count, language
+const segmentValidators = [
+  query("period")
+    .optional()
+    .isIn(LEADERBOARD_PERIODS)
+    .withMessage("Invalid period"),
+  query("mode").optional().isIn(["time", "words"]).withMessage("Invalid mode"),
+  query("length")
+    .optional()
+    .isInt({ min: 1, max: 3600 })
+    .withMessage("Length must be between 1 and 3600"),
+  query("language").optional().trim().isLength({ min: 1, max: 20 }),
+];
+
 /**
  * GET /api/leaderboard
- * Get global leaderboard
+ * Get global leaderboard for one board
+ */
+router.get(
+  "/",
+  optionalAuth,
+  [
+    ...segmentValidators,
+    query("limit").optional().isInt({ min: 1, max: 1000 }),
+    query("offset").optional().isInt({ min: 0 }),
+  ],
+  leaderboardController.getGlobalLeaderboard,
+);
+
+/**
+ * GET /api/leaderboard/around-me
+ * Get the entries above and below the current user
  */
-router.get("/", optionalAuth, leaderboardController.getGlobalLeaderboard);
+router.get(
+  "/around-me",
+  authenticateToken,
+  [
+    ...segmentValidators,
+    query("window")
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage("Window must be between 1 and 50"),
+  ],
+  leaderboardController.getAroundMe,
+);
 
 /**
  * GET /api/leaderboard/:userId/rank
- * Get user's rank
+ * Get user's rank, the board size and their percentile
  */
-router.get("/:userId/rank", optionalAuth, leaderboardController.getUserRank);
+router.get(
+  "/:userId/rank",
+  optionalAuth,
+  [
+    param("userId").isUUID().withMessage("Invalid user ID"),
+    ...segmentValidators,
+  ],
+  leaderboardController.getUserRank,
+);
 
 export default router;
@@ -1,7 +1,9 @@
 import { Router } from "express";
-import { body } from "express-validator";
+import { body, param, query } from "express-validator";
 import * as testController from "../controllers/testController";
-import { authenticateToken } from "../middleware/auth";
+import { authenticateToken, optionalAuth } from "../middleware/auth";
+import { BREAKDOWN_DIMENSIONS } from "../models/TestStatistics";
+import { PROGRESS_INTERVALS } from "../models/TypingTest";
 
 /**
  * Typing Test Routes
@@ -10,24 +12,66 @@ import { authenticateToken } from "../middleware/auth";
 const router = Router();
 
 /**
- * POST /api/tests/submit
- * Submit a completed typing test
+ * GET /api/tests/generate
+ * Generate test text from the stored word lists
+ */
+router.get(
+  "/generate",
+  [
+    query("mode").optional().isIn(["time", "words"]),
+    query("language").optional().trim().isLength({ min: 1, max: 20 }),
+    query("difficulty")
+      .optional()
+      .isIn(["easy", "normal", "hard"])
+      .withMessage("Invalid difficulty"),
+    query("testType").optional().isIn(["normal", "punctuation", "numbers"]),
+    query("length")
+      .optional()
+      .isInt({ min: 1, max: 3600 })
+      .withMessage("Length must be between 1 and 3600"),
+  ],
+  testController.generateTest,
+);
+
+/**
+ * POST /api/tests/sessions
+ * Start a test session with server-generated text
  */
 router.post(
-  "/submit",
+  "/sessions",
   authenticateToken,
   [
-    body("originalText").notEmpty().withMessage("Original text is required"),
-    body("typedText").notEmpty().withMessage("Typed text is required"),
-    body("duration")
-      .isInt({ min: 15, max: 3600 })
-      .withMessage("Duration must be between 15 and 3600 seconds"),
+    body("mode").optional().isIn(["time", "words"]),
+    body("language").optional().trim().isLength({ min: 1, max: 20 }),
     body("difficulty")
+      .optional()
       .isIn(["easy", "normal", "hard"])
       .withMessage("Invalid difficulty"),
-    body("language").optional().trim(),
-    body("mode").optional().isIn(["time", "words", "quote", "zen"]),
     body("testType").optional().isIn(["normal", "punctuation", "numbers"]),
+    body("length")
+      .optional()
+      .isInt({ min: 1, max: 3600 })
+      .withMessage("Length must be between 1 and 3600"),
+  ],
+  testController.createSession,
+);
+
+/**
+ * POST /api/tests/submit
+ * Submit a completed typing test for a session
+ */
+router.post(
+  "/submit",
+  authenticateToken,
+  [
+    body("sessionId").isUUID().withMessage("Valid session ID is required"),
+    body("typedText").notEmpty().withMessage("Typed text is required"),
+    body("durationActual")
+      .optional()
+      .isInt({ min: 0, max: 3600 })
+      .withMessage("Actual duration must be whole seconds between 0 and 3600")
+      .toInt(),
+    body("inputHistory").isArray().withMessage("Input history is required"),
   ],
   testController.submitTest,
 );
@@ -40,9 +84,55 @@ router.get("/history", authenticateToken, testController.getTestHistory);
 
 /**
  * GET /api/tests/statistics
- * Get user's typing statistics
+ * Get user's typing statistics, optionally broken down by groupBy
  */
-router.get("/statistics", authenticateToken, testController.getStatistics);
+router.get(
+  "/statistics",
+  authenticateToken,
+  [
+    query("groupBy")
+      .optional()
+      .custom((value: string) =>
+        value
+          .split(",")
+          .every((dimension) =>
+            (BREAKDOWN_DIMENSIONS as readonly string[]).includes(dimension),
+          ),
+      )
+      .withMessage(`groupBy must list ${BREAKDOWN_DIMENSIONS.join(", ")}`),
+  ],
+  testController.getStatistics,
+);
+
+/**
+ * GET /api/tests/progress
+ * Get average and best WPM, accuracy and time typed per day, week or month
+ */
+router.get(
+  "/progress",
+  authenticateToken,
+  [
+    query("interval")
+      .optional()
+      .isIn(PROGRESS_INTERVALS)
+      .withMessage("Interval must be day, week or month"),
+    query("days")
+      .optional()
+      .isInt({ min: 1, max: 3650 })
+      .withMessage("Days must be between 1 and 3650"),
+    query("window")
+      .optional()
+      .isInt({ min: 1, max: 52 })
+      .withMessage("Window must be between 1 and 52"),
+    query("mode").optional().isIn(["time", "words"]),
+    query("duration").optional().isInt({ min: 1, max: 3600 }),
+    query("difficulty")
+      .optional()
+      .isIn(["easy", "normal", "hard"])
+      .withMessage("Invalid difficulty"),
+  ],
+  testController.getProgress,
+);
 
 /**
  * GET /api/tests/best
@@ -50,10 +140,67 @@ router.get("/statistics", authenticateToken, testController.getStatistics);
  */
 router.get("/best", authenticateToken, testController.getBestTest);
 
+/**
+ * GET /api/tests/personal-bests
+ * Get personal bests per difficulty, mode and duration
+ */
+router.get(
+  "/personal-bests",
+  authenticateToken,
+  testController.getPersonalBests,
+);
+
+/**
+ * GET /api/tests/analytics/keys
+ * Get per-key error rate and latency, optionally within a date range
+ */
+router.get(
+  "/analytics/keys",
+  authenticateToken,
+  [
+    query("from").optional().isISO8601().withMessage("Invalid from date"),
+    query("to").optional().isISO8601().withMessage("Invalid to date"),
+  ],
+  testController.getKeyAnalytics,
+);
+
+/**
+ * GET /api/tests/analytics/ngrams
+ * Get slowest and most error-prone bigrams or trigrams
+ */
+router.get(
+  "/analytics/ngrams",
+  authenticateToken,
+  [
+    query("n").optional().isIn(["2", "3"]).withMessage("n must be 2 or 3"),
+    query("limit").optional().isInt({ min: 1, max: 100 }),
+    query("minSamples").optional().isInt({ min: 1 }),
+    query("from").optional().isISO8601().withMessage("Invalid from date"),
+    query("to").optional().isISO8601().withMessage("Invalid to date"),
+  ],
+  testController.getNgramAnalytics,
+);
+
 /**
  * GET /api/tests/:testId
  * Get specific test details
  */
-router.get("/:testId", authenticateToken, testController.getTestById);
+router.get(
+  "/:testId",
+  optionalAuth,
+  [param("testId").isUUID()],
+  testController.getTestById,
+);
+
+/**
+ * GET /api/tests/:testId/replay
+ * Get normalized keystroke stream for playback
+ */
+router.get(
+  "/:testId/replay",
+  optionalAuth,
+  [param("testId").isUUID()],
+  testController.getTestReplay,
+);
 
 export default router;
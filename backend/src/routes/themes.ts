@@ -0,0 +1,24 @@
+import { Router } from "express";
+import { query } from "express-validator";
+import * as themeController from "../controllers/themeController";
+
+/**
+ * Theme Routes
+ */
+
+const router = Router();
+
+/**
+ * GET /api/themes
+ * Get the community gallery of shared custom themes
+ */
+router.get(
+  "/",
+  [
+    query("limit").optional().isInt({ min: 1, max: 100 }),
+    query("offset").optional().isInt({ min: 0 }),
+  ],
+  themeController.getThemeGallery,
+);
+
+export default router;
@@ -0,0 +1,97 @@
+import { Router } from "express";
+import { body, param } from "express-validator";
+import * as userController from "../controllers/userController";
+import { authenticateToken, optionalAuth } from "../middleware/auth";
+import { isCustomTheme } from "../utils/customTheme";
+
+/**
+ * User Routes
+ */
+
+const router = Router();
+
+/**
+ * Check an IANA time zone name, e.g. 'Europe/Berlin'
+ */
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * GET /api/users/me/preferences
+ * Get the current user's preferences
+ */
+router.get("/me/preferences", authenticateToken, userController.getPreferences);
+
+/**
+ * PATCH /api/users/me/preferences
+ * Update some of the current user's preferences
+ */
+router.patch(
+  "/me/preferences",
+  authenticateToken,
+  [
+    body("theme").optional().isIn(["dark", "light", "custom"]),
+    body("custom_theme_config")
+      .optional()
+      .custom((value) => value === null || isCustomTheme(value))
+      .withMessage(
+        "Custom theme must be null, or have a name and #rrggbb colors for background, text, caret, correct, error and accent",
+      ),
+    body([
+      "enable_sounds",
+      "enable_animations",
+      "notification_email",
+      "show_live_wpm",
+      "show_live_accuracy",
+      "profile_public",
+      "show_on_leaderboard",
+    ])
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage("Must be true or false"),
+    body("language").optional().trim().isLength({ min: 2, max: 10 }),
+    body("font_size")
+      .optional()
+      .isInt({ min: 10, max: 48 })
+      .withMessage("Font size must be between 10 and 48")
+      .toInt(),
+    body("font_family").optional().trim().isLength({ min: 1, max: 50 }),
+    body("caret_style").optional().isIn(["line", "block", "underline"]),
+    body("default_test_duration")
+      .optional()
+      .isInt({ min: 1, max: 3600 })
+      .withMessage("Duration must be between 1 and 3600")
+      .toInt(),
+    body("default_difficulty")
+      .optional()
+      .isIn(["easy", "normal", "hard"])
+      .withMessage("Invalid difficulty"),
+    body("default_language").optional().trim().isLength({ min: 1, max: 20 }),
+    body("timezone")
+      .optional()
+      .isString()
+      .isLength({ max: 64 })
+      .custom(isTimeZone)
+      .withMessage("Unknown time zone"),
+  ],
+  userController.updatePreferences,
+);
+
+/**
+ * GET /api/users/:id/achievements
+ * Get a user's earned achievements
+ */
+router.get(
+  "/:id/achievements",
+  optionalAuth,
+  [param("id").isUUID()],
+  userController.getAchievements,
+);
+
+export default router;
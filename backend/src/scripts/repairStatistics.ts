@@ -0,0 +1,47 @@
+import pool from "../config/database";
+import { recalculateStatistics } from "../models/TestStatistics";
+
+/**
+ * Statistics Repair
+ * Recomputes test_statistics from typing_tests, replacing the running totals
+ *
+ * Usage: npm run stats:repair -- <userId> [<userId> ...]
+ *        npm run stats:repair -- --all
+ */
+
+async function repairStatistics(args: string[]): Promise<void> {
+  try {
+    const userIds = args.includes("--all")
+      ? (await pool.query("SELECT id FROM users ORDER BY created_at")).rows.map(
+          (row) => row.id,
+        )
+      : args;
+
+    if (userIds.length === 0) {
+      console.error("Usage: stats:repair -- <userId> [<userId> ...] | --all");
+      process.exitCode = 1;
+      return;
+    }
+
+    console.log(`Repairing statistics for ${userIds.length} user(s)`);
+
+    for (const userId of userIds) {
+      const stats = await recalculateStatistics(userId);
+      console.log(`✓ ${userId}: ${stats?.total_tests ?? 0} tests`);
+    }
+
+    console.log("Statistics repair completed successfully!");
+  } catch (error) {
+    console.error("Statistics repair error:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  repairStatistics(process.argv.slice(2));
+}
+
+export { repairStatistics };
@@ -7,7 +7,15 @@ import { errorHandler } from "./middleware/errorHandler";
 import authRoutes from "./routes/auth";
 import testRoutes from "./routes/tests";
 import leaderboardRoutes from "./routes/leaderboard";
+import adminRoutes from "./routes/admin";
+import userRoutes from "./routes/users";
+import themeRoutes from "./routes/themes";
 import { initializeWebSocket } from "./websocket/multiplayerHandler";
+import {
+  startLeaderboardSchedule,
+  stopLeaderboardSchedule,
+} from "./jobs/leaderboardJob";
+import { startStreakSchedule, stopStreakSchedule } from "./jobs/streakJob";
 
 dotenv.config();
 
@@ -39,6 +47,9 @@ app.get("/health", (_req, res) => {
 app.use("/api/auth", authRoutes);
 app.use("/api/tests", testRoutes);
 app.use("/api/leaderboard", leaderboardRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/themes", themeRoutes);
+app.use("/api/admin", adminRoutes);
 
 // 404 handler
 app.use((_req, res) => {
@@ -61,11 +72,16 @@ httpServer.listen(PORT, () => {
 ║   Environment: ${config.nodeEnv}                      ║
 ╚════════════════════════════════════════════╝
   `);
+
+  startLeaderboardSchedule();
+  startStreakSchedule();
 });
 
 // Graceful shutdown
 process.on("SIGTERM", () => {
   console.log("SIGTERM received, shutting down gracefully...");
+  stopLeaderboardSchedule();
+  stopStreakSchedule();
   httpServer.close(() => {
     console.log("Server closed");
     process.exit(0);
@@ -0,0 +1,60 @@
+import { AchievementStats, evaluateAchievements } from "../achievements";
+
+const NO_STATS: AchievementStats = {
+  unflagged_tests: 0,
+  unflagged_time_typing: 0,
+  unflagged_streak: 0,
+};
+
+const TEST = {
+  wpm: 60,
+  accuracy: 95,
+  consistency: 70,
+  characters: 300,
+};
+
+describe("evaluateAchievements", () => {
+  it("awards test, WPM and accuracy achievements from an unflagged test", () => {
+    const earned = evaluateAchievements({
+      test: { ...TEST, accuracy: 100 },
+      stats: { ...NO_STATS, unflagged_tests: 1 },
+    });
+
+    expect(earned).toEqual(["tests_1", "wpm_50", "accuracy_100"]);
+  });
+
+  it("awards nothing from the test itself when it is flagged", () => {
+    const earned = evaluateAchievements({
+      test: null,
+      stats: NO_STATS,
+    });
+
+    expect(earned).toEqual([]);
+  });
+
+  it("awards streak and time achievements from unflagged totals", () => {
+    const earned = evaluateAchievements({
+      test: null,
+      stats: {
+        unflagged_tests: 0,
+        unflagged_time_typing: 60 * 60,
+        unflagged_streak: 7,
+      },
+    });
+
+    expect(earned).toEqual(["time_1h", "streak_3", "streak_7"]);
+  });
+
+  it("does not award streak or time achievements below the unflagged totals", () => {
+    const earned = evaluateAchievements({
+      test: null,
+      stats: {
+        unflagged_tests: 0,
+        unflagged_time_typing: 60 * 60 - 1,
+        unflagged_streak: 2,
+      },
+    });
+
+    expect(earned).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { assessRisk } from "../antiCheat";
+import { KeystrokeEvent } from "../keystrokes";
+
+const TEXT = "the quick brown fox";
+
+/**
+ * Keystrokes typing text at a steady human pace
+ */
+function typed(text: string): KeystrokeEvent[] {
+  return text.split("").map((char, i) => ({ time: i * 180, char }));
+}
+
+describe("assessRisk", () => {
+  it("flags a submission without input history", () => {
+    const risk = assessRisk({
+      wpm: 70,
+      typedText: TEXT,
+      keystrokes: [],
+      anomalies: null,
+      bot: null,
+    });
+
+    expect(risk.reasons).toEqual(["missing_input_history"]);
+    expect(risk.flagged).toBe(true);
+  });
+
+  it("flags keystrokes that do not produce the typed text", () => {
+    const risk = assessRisk({
+      wpm: 70,
+      typedText: TEXT,
+      keystrokes: typed("the quick"),
+      anomalies: null,
+      bot: null,
+    });
+
+    expect(risk.reasons).toContain("input_mismatch");
+  });
+
+  it("passes keystrokes that replay to the typed text", () => {
+    const risk = assessRisk({
+      wpm: 70,
+      typedText: TEXT,
+      keystrokes: typed(TEXT),
+      anomalies: null,
+      bot: null,
+    });
+
+    expect(risk.reasons).toEqual([]);
+    expect(risk.flagged).toBe(false);
+  });
+
+  it("passes word deletes and mid-text edits that replay to the typed text", () => {
+    const keystrokes: KeystrokeEvent[] = [
+      ...typed("the quack brown cat"),
+      // Ctrl+Backspace removes the last word
+      { time: 3500, char: "Edit", edit: { at: 16, remove: 3, insert: "" } },
+      ...typed("fox").map((k) => ({ ...k, time: k.time + 3700 })),
+      // Caret moved back to fix "quack"
+      { time: 4500, char: "Edit", edit: { at: 6, remove: 1, insert: "i" } },
+    ];
+
+    const risk = assessRisk({
+      wpm: 70,
+      typedText: TEXT,
+      keystrokes,
+      anomalies: null,
+      bot: null,
+    });
+
+    expect(risk.reasons).toEqual([]);
+    expect(risk.flagged).toBe(false);
+  });
+
+  it("treats large inserted edits as pasted text", () => {
+    const text = "the quick brown fox jumps over the lazy dog";
+    const risk = assessRisk({
+      wpm: 70,
+      typedText: text,
+      keystrokes: [
+        ...typed("the "),
+        {
+          time: 800,
+          char: "Edit",
+          edit: { at: 4, remove: 0, insert: text.slice(4) },
+        },
+      ],
+      anomalies: null,
+      bot: null,
+    });
+
+    expect(risk.reasons).toEqual(["suspicious_paste"]);
+  });
+});
@@ -0,0 +1,186 @@
+import { detectBot } from "../botDetection";
+import { assessRisk } from "../antiCheat";
+import { KeystrokeEvent, replayKeystrokes } from "../keystrokes";
+
+const TEXT =
+  "the quick brown fox jumps over the lazy dog while people about which would time ".repeat(
+    4,
+  );
+
+/**
+ * Deterministic PRNG so generated streams are stable between runs
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function logNormal(random: () => number, median: number, sigma: number) {
+  const u = Math.max(random(), 1e-9);
+  const v = random();
+  const normal = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  return median * Math.exp(sigma * normal);
+}
+
+/**
+ * Human-like stream: skewed intervals and hold times, pauses between
+ * words and occasional typos fixed with Backspace
+ */
+function humanStream(seed: number, withDwell = true): KeystrokeEvent[] {
+  const random = mulberry32(seed);
+  const events: KeystrokeEvent[] = [];
+  let time = 0;
+
+  const press = (char: string) => {
+    events.push({
+      time: Math.round(time),
+      char,
+      ...(withDwell && { dwell: Math.round(logNormal(random, 95, 0.35)) }),
+    });
+    time += logNormal(random, 170, 0.45);
+  };
+
+  for (const char of TEXT) {
+    if (char === " " && random() < 0.1) time += 400 + random() * 600;
+    if (char !== " " && random() < 0.03) {
+      press("x");
+      press("Backspace");
+    }
+    press(char);
+  }
+
+  return events;
+}
+
+/**
+ * Bot-like stream: fixed interval with optional jitter and fixed hold time
+ */
+function botStream(intervalMs: number, jitterMs = 0): KeystrokeEvent[] {
+  const random = mulberry32(42);
+  let time = 0;
+
+  return TEXT.split("").map((char) => {
+    const event = { time: Math.round(time), char, dwell: 40 };
+    time += intervalMs + (random() * 2 - 1) * jitterMs;
+    return event;
+  });
+}
+
+describe("detectBot", () => {
+  it("passes human-like streams", () => {
+    for (const seed of [1, 2, 3, 4, 5]) {
+      const verdict = detectBot(humanStream(seed));
+
+      expect(verdict.isBot).toBe(false);
+      expect(verdict.signals).toEqual([]);
+      expect(verdict.intervalVariation).toBeGreaterThan(0.3);
+    }
+  });
+
+  it("passes human-like streams without dwell times", () => {
+    const verdict = detectBot(humanStream(7, false));
+
+    expect(verdict.isBot).toBe(false);
+    expect(verdict.dwellVariation).toBeNull();
+  });
+
+  it("flags a perfectly uniform 180 WPM script", () => {
+    // 180 WPM = 15 characters per second
+    const verdict = detectBot(botStream(1000 / 15));
+
+    expect(verdict.isBot).toBe(true);
+    expect(verdict.signals).toEqual(
+      expect.arrayContaining([
+        "uniform_intervals",
+        "quantized_intervals",
+        "uniform_dwell",
+        "no_corrections",
+      ]),
+    );
+    expect(verdict.score).toBe(100);
+  });
+
+  it("flags a script with small random jitter", () => {
+    const verdict = detectBot(botStream(70, 5));
+
+    expect(verdict.isBot).toBe(true);
+    expect(verdict.signals).toContain("uniform_intervals");
+    expect(verdict.signals).not.toContain("quantized_intervals");
+  });
+
+  it("flags streams with too few intervals to judge", () => {
+    const verdict = detectBot(humanStream(1).slice(0, 20));
+
+    expect(verdict.isBot).toBe(true);
+    expect(verdict.signals).toEqual(["too_few_intervals"]);
+    expect(verdict.sampleSize).toBe(19);
+  });
+
+  it("flags an empty stream", () => {
+    const verdict = detectBot([]);
+
+    expect(verdict.isBot).toBe(true);
+    expect(verdict.signals).toEqual(["too_few_intervals"]);
+    expect(verdict.sampleSize).toBe(0);
+  });
+
+  it("ignores pauses when measuring rhythm", () => {
+    const events = botStream(70).map((e, i) => ({
+      ...e,
+      time: e.time + Math.floor(i / 50) * 5000,
+    }));
+
+    expect(detectBot(events).signals).toContain("uniform_intervals");
+  });
+});
+
+describe("assessRisk with bot verdict", () => {
+  const typedText = TEXT;
+
+  it("flags a bot-like submission", () => {
+    const keystrokes = botStream(1000 / 15);
+    const risk = assessRisk({
+      wpm: 180,
+      typedText,
+      keystrokes,
+      anomalies: null,
+      bot: detectBot(keystrokes),
+    });
+
+    expect(risk.reasons).toContain("bot_like_timing");
+    expect(risk.flagged).toBe(true);
+  });
+
+  it("flags a submission with too few intervals", () => {
+    const keystrokes = humanStream(3).slice(0, 10);
+    const risk = assessRisk({
+      wpm: 70,
+      typedText: replayKeystrokes(keystrokes),
+      keystrokes,
+      anomalies: null,
+      bot: detectBot(keystrokes),
+    });
+
+    expect(risk.reasons).toContain("bot_like_timing");
+    expect(risk.flagged).toBe(true);
+  });
+
+  it("does not flag a human-like submission", () => {
+    const keystrokes = humanStream(3);
+    const risk = assessRisk({
+      wpm: 70,
+      typedText,
+      keystrokes,
+      anomalies: null,
+      bot: detectBot(keystrokes),
+    });
+
+    expect(risk.reasons).toEqual([]);
+    expect(risk.flagged).toBe(false);
+  });
+});
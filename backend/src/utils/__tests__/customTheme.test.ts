@@ -0,0 +1,76 @@
+import { decodeThemeCode, encodeThemeCode, ThemeColors } from "../customTheme";
+import * as clientTheme from "../../../../frontend/src/utils/theme";
+
+const COLORS: ThemeColors = {
+  background: "#2d1b2e",
+  text: "#f4d9c6",
+  caret: "#ff8c42",
+  correct: "#f4d9c6",
+  error: "#ff3c38",
+  accent: "#ff8c42",
+};
+
+// Bytes that encode to both base64url-only characters, '-' and '_'
+const URL_SAFE_COLORS: ThemeColors = {
+  background: "#fbffbf",
+  text: "#fbefff",
+  caret: "#000000",
+  correct: "#ffffff",
+  error: "#e2b714",
+  accent: "#3e3f3f",
+};
+
+describe("theme codes", () => {
+  it("round-trips colors through a 24-character code", () => {
+    const code = encodeThemeCode(COLORS);
+
+    expect(code).toMatch(/^[A-Za-z0-9_-]{24}$/);
+    expect(decodeThemeCode(code)).toEqual(COLORS);
+  });
+
+  it("round-trips codes containing URL-safe characters", () => {
+    const code = encodeThemeCode(URL_SAFE_COLORS);
+
+    expect(code).toMatch(/[-_]/);
+    expect(decodeThemeCode(code)).toEqual(URL_SAFE_COLORS);
+  });
+
+  it("decodes to lowercase colors and ignores surrounding whitespace", () => {
+    const code = encodeThemeCode({ ...COLORS, caret: "#FF8C42" });
+
+    expect(decodeThemeCode(`  ${code}\n`)).toEqual(COLORS);
+  });
+
+  it("rejects codes of the wrong length", () => {
+    const code = encodeThemeCode(COLORS);
+
+    expect(decodeThemeCode("")).toBeNull();
+    expect(decodeThemeCode(code.slice(0, 23))).toBeNull();
+    expect(decodeThemeCode(`${code}A`)).toBeNull();
+  });
+
+  it("rejects characters outside base64url", () => {
+    const code = encodeThemeCode(COLORS);
+
+    expect(decodeThemeCode(`${code.slice(0, 23)}+`)).toBeNull();
+    expect(decodeThemeCode(`${code.slice(0, 23)}/`)).toBeNull();
+    expect(decodeThemeCode(`${code.slice(0, 23)}=`)).toBeNull();
+    expect(
+      decodeThemeCode(`${code.slice(0, 12)} ${code.slice(13)}`),
+    ).toBeNull();
+  });
+
+  it("agrees with the client codec", () => {
+    for (const colors of [COLORS, URL_SAFE_COLORS]) {
+      const code = encodeThemeCode(colors);
+
+      expect(clientTheme.encodeThemeCode(colors)).toBe(code);
+      expect(clientTheme.decodeThemeCode(code)).toEqual(colors);
+      expect(decodeThemeCode(clientTheme.encodeThemeCode(colors))).toEqual(
+        colors,
+      );
+    }
+
+    expect(clientTheme.decodeThemeCode("too-short")).toBeNull();
+  });
+});
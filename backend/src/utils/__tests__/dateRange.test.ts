@@ -0,0 +1,21 @@
+import { rangeEndExclusive } from "../dateRange";
+
+describe("rangeEndExclusive", () => {
+  it("covers the whole day of a date-only bound", () => {
+    expect(rangeEndExclusive("2024-01-31").toISOString()).toBe(
+      "2024-02-01T00:00:00.000Z",
+    );
+  });
+
+  it("rolls over month and year ends", () => {
+    expect(rangeEndExclusive("2023-12-31").toISOString()).toBe(
+      "2024-01-01T00:00:00.000Z",
+    );
+  });
+
+  it("keeps a timestamp bound inclusive", () => {
+    expect(rangeEndExclusive("2024-01-31T23:59:59Z").toISOString()).toBe(
+      "2024-01-31T23:59:59.001Z",
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  aggregateKeyStats,
+  aggregateNgramStats,
+  annotateKeystrokes,
+  KeystrokeEvent,
+} from "../keystrokes";
+
+/**
+ * Keystrokes from [char, time] pairs
+ */
+function strokes(...pairs: Array<[string, number]>): KeystrokeEvent[] {
+  return pairs.map(([char, time]) => ({ time, char }));
+}
+
+describe("annotateKeystrokes", () => {
+  it("attributes a typo to the prompt character at the cursor", () => {
+    const annotated = annotateKeystrokes(
+      "the cat",
+      strokes(["t", 0], ["h", 100], ["x", 250], ["Backspace", 400], ["e", 500]),
+    );
+
+    expect(
+      annotated.map(({ char, expected, correct }) => [char, expected, correct]),
+    ).toEqual([
+      ["t", "t", true],
+      ["h", "h", true],
+      ["x", "e", false],
+      ["Backspace", null, true],
+      ["e", "e", true],
+    ]);
+  });
+
+  it("measures latency from the previous keystroke", () => {
+    const annotated = annotateKeystrokes("ab", strokes(["a", 0], ["b", 180]));
+
+    expect(annotated.map((s) => s.latency)).toEqual([null, 180]);
+  });
+
+  it("moves to the next word on space, even when the word was cut short", () => {
+    const annotated = annotateKeystrokes(
+      "the cat",
+      strokes(["t", 0], [" ", 100], ["c", 200]),
+    );
+
+    // The early space is an error on "h"; the cursor still moves on
+    expect(annotated.map((s) => s.expected)).toEqual(["t", "h", "c"]);
+    expect(annotated[1].correct).toBe(false);
+    expect(annotated[2].correct).toBe(true);
+  });
+
+  it("returns to the previous word on Backspace at a word start", () => {
+    const annotated = annotateKeystrokes(
+      "ab cd",
+      strokes(["a", 0], [" ", 100], ["Backspace", 200], ["b", 300]),
+    );
+
+    expect(annotated[3]).toMatchObject({ expected: "b", correct: true });
+  });
+
+  it("drops non-character keys", () => {
+    const annotated = annotateKeystrokes(
+      "ab",
+      strokes(["a", 0], ["Shift", 50], ["b", 100]),
+    );
+
+    expect(annotated.map((s) => s.char)).toEqual(["a", "b"]);
+  });
+});
+
+describe("aggregateKeyStats", () => {
+  const stats = aggregateKeyStats(
+    annotateKeystrokes(
+      "The cat",
+      strokes(
+        ["T", 0],
+        ["h", 100],
+        ["x", 250],
+        ["Backspace", 400],
+        ["e", 500],
+        [" ", 600],
+        ["c", 700],
+        ["a", 3000],
+        ["t", 3100],
+      ),
+    ),
+  );
+  const stat = (key: string) => stats.find((s) => s.key === key);
+
+  it("counts samples and errors per prompt key", () => {
+    expect(stat("e")).toMatchObject({ samples: 2, errors: 1 });
+    expect(stat("h")).toMatchObject({ samples: 1, errors: 0 });
+    expect(stat("x")).toBeUndefined();
+  });
+
+  it("lowercases keys", () => {
+    expect(stat("t")).toMatchObject({ samples: 2, errors: 0 });
+    expect(stat("T")).toBeUndefined();
+  });
+
+  it("averages latency only over keystrokes with a measured latency", () => {
+    // First keystroke has no latency
+    expect(stat("t")).toMatchObject({ latencyTotal: 100, latencySamples: 1 });
+    expect(stat("e")).toMatchObject({ latencyTotal: 250, latencySamples: 2 });
+  });
+
+  it("leaves pauses out of the latency average", () => {
+    expect(stat("a")).toMatchObject({
+      samples: 1,
+      latencyTotal: 0,
+      latencySamples: 0,
+    });
+  });
+
+  it("skips Backspace", () => {
+    expect(stats.reduce((sum, s) => sum + s.samples, 0)).toBe(8);
+  });
+});
+
+describe("aggregateNgramStats", () => {
+  const ngrams = (text: string, n: number, ...pairs: Array<[string, number]>) =>
+    aggregateNgramStats(annotateKeystrokes(text, strokes(...pairs)), n);
+
+  it("skips n-grams that cross a word boundary", () => {
+    const bigrams = ngrams(
+      "ab cd",
+      2,
+      ["a", 0],
+      ["b", 100],
+      [" ", 200],
+      ["c", 300],
+      ["d", 400],
+    );
+
+    expect(bigrams.map((s) => s.ngram).sort()).toEqual(["ab", "cd"]);
+    expect(
+      ngrams("ab cd", 3, ["a", 0], ["b", 100], [" ", 200], ["c", 300]),
+    ).toEqual([]);
+  });
+
+  it("restarts after Backspace and counts the typo as an error", () => {
+    const bigrams = ngrams(
+      "abc",
+      2,
+      ["a", 0],
+      ["x", 100],
+      ["Backspace", 200],
+      ["b", 300],
+      ["c", 400],
+    );
+
+    expect(bigrams).toEqual([
+      {
+        ngram: "ab",
+        n: 2,
+        samples: 1,
+        errors: 1,
+        transitionTotal: 100,
+        transitionSamples: 1,
+      },
+      {
+        ngram: "bc",
+        n: 2,
+        samples: 1,
+        errors: 0,
+        transitionTotal: 100,
+        transitionSamples: 1,
+      },
+    ]);
+  });
+
+  it("leaves slow transitions out of the average but counts the sample", () => {
+    const pairs: Array<[string, number]> = [
+      ["a", 0],
+      ["b", 100],
+      ["a", 2500],
+      ["b", 2600],
+    ];
+    const bigrams = ngrams("abab", 2, ...pairs);
+
+    expect(bigrams.find((s) => s.ngram === "ab")).toMatchObject({
+      samples: 2,
+      transitionTotal: 200,
+      transitionSamples: 2,
+    });
+    expect(bigrams.find((s) => s.ngram === "ba")).toMatchObject({
+      samples: 1,
+      transitionTotal: 0,
+      transitionSamples: 0,
+    });
+
+    // The cutoff scales with n: 2500ms over three keys is still typing
+    expect(ngrams("abab", 3, ...pairs)).toContainEqual(
+      expect.objectContaining({
+        ngram: "aba",
+        transitionTotal: 2500,
+        transitionSamples: 1,
+      }),
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  buildWpmSeries,
+  calculateConsistency,
+  calculateTestMetrics,
+  classifyCharacters,
+  classifyWords,
+} from "../typingCalculations";
+import { InputEvent } from "../keystrokes";
+
+/**
+ * Input events typing text at a fixed interval from an absolute start
+ */
+function typeAt(text: string, intervalMs: number): InputEvent[] {
+  const start = 1_700_000_000_000;
+  return text
+    .split("")
+    .map((char, i) => ({ timestamp: start + i * intervalMs, char }));
+}
+
+describe("classifyWords", () => {
+  it("marks the current word's remainder and later words as pending", () => {
+    const words = classifyWords("the cat sat", "the ca");
+
+    expect(words[1].chars.map((c) => c.state)).toEqual([
+      "correct",
+      "correct",
+      "pending",
+    ]);
+    expect(words[2].chars.every((c) => c.state === "pending")).toBe(true);
+  });
+
+  it("keeps typed characters for extras", () => {
+    const words = classifyWords("the", "thee");
+
+    expect(words[0].chars[3]).toEqual({ char: "e", state: "extra" });
+  });
+});
+
+describe("classifyCharacters", () => {
+  it("counts a perfect run, including spaces", () => {
+    expect(classifyCharacters("the cat", "the cat")).toEqual({
+      correct: 7,
+      incorrect: 0,
+      extra: 0,
+      missed: 0,
+    });
+  });
+
+  it("confines a skipped character to its own word", () => {
+    // "te" against "the": e is typed where h was expected, e is missed
+    expect(classifyCharacters("the cat", "te cat")).toEqual({
+      correct: 5,
+      incorrect: 1,
+      extra: 0,
+      missed: 1,
+    });
+  });
+
+  it("counts characters typed past a word's end as extra", () => {
+    expect(classifyCharacters("the cat", "thee cat")).toEqual({
+      correct: 7,
+      incorrect: 0,
+      extra: 1,
+      missed: 0,
+    });
+  });
+
+  it("counts a skipped word as missed", () => {
+    expect(classifyCharacters("the cat sat", "the  sat")).toEqual({
+      correct: 8,
+      incorrect: 0,
+      extra: 0,
+      missed: 3,
+    });
+  });
+
+  it("counts a missing space as extra characters on the word", () => {
+    expect(classifyCharacters("the cat", "thecat")).toEqual({
+      correct: 3,
+      incorrect: 0,
+      extra: 3,
+      missed: 0,
+    });
+  });
+
+  it("counts an extra space and the words it shifts", () => {
+    // The empty word misses "cat"; the typed "cat" lands past the prompt
+    expect(classifyCharacters("the cat", "the  cat")).toEqual({
+      correct: 4,
+      incorrect: 0,
+      extra: 4,
+      missed: 3,
+    });
+  });
+
+  it("does not count an unfinished word as missed", () => {
+    expect(classifyCharacters("the cat", "the c")).toEqual({
+      correct: 5,
+      incorrect: 0,
+      extra: 0,
+      missed: 0,
+    });
+  });
+});
+
+describe("buildWpmSeries", () => {
+  it("buckets keystrokes into seconds from the first keystroke", () => {
+    const series = buildWpmSeries("abcdefghij", typeAt("abcdefghij", 200), 2);
+
+    // 5 characters per second = 60 WPM
+    expect(series).toEqual([
+      { second: 1, wpm: 60, rawWpm: 60, errors: 0 },
+      { second: 2, wpm: 60, rawWpm: 60, errors: 0 },
+    ]);
+  });
+
+  it("scales a final partial second to its length", () => {
+    const series = buildWpmSeries("abcdef", typeAt("abcdef", 250), 1.5);
+
+    expect(series).toHaveLength(2);
+    // 2 characters in half a second, 6 correct in 1.5 seconds
+    expect(series[1]).toEqual({ second: 2, wpm: 48, rawWpm: 48, errors: 0 });
+  });
+
+  it("puts keystrokes after the end in the last bucket", () => {
+    const series = buildWpmSeries("abc", typeAt("abc", 800), 1);
+
+    expect(series).toEqual([{ second: 1, wpm: 36, rawWpm: 36, errors: 0 }]);
+  });
+
+  it("counts errors in the second they happened", () => {
+    const series = buildWpmSeries("abcd", typeAt("abxd", 500), 2);
+
+    expect(series.map((p) => p.errors)).toEqual([0, 1]);
+  });
+
+  it("returns no points for an empty history", () => {
+    expect(buildWpmSeries("abc", [], 10)).toEqual([]);
+  });
+});
+
+describe("consistency", () => {
+  it("is 100 for a constant speed", () => {
+    expect(calculateConsistency([60, 60, 60, 60])).toBe(100);
+
+    const text = "abcdefghijklmnopqrst";
+    const metrics = calculateTestMetrics(text, text, 4, typeAt(text, 200));
+    expect(metrics.consistency).toBe(100);
+  });
+
+  it("is one minus the coefficient of variation", () => {
+    // mean 60, standard deviation 20
+    expect(calculateConsistency([40, 80])).toBe(66.67);
+  });
+
+  it("is 0 without samples", () => {
+    expect(calculateConsistency([])).toBe(0);
+
+    const metrics = calculateTestMetrics("abc", "abc", 1);
+    expect(metrics.series).toEqual([]);
+    expect(metrics.consistency).toBe(0);
+  });
+});
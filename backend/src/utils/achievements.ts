@@ -0,0 +1,142 @@
+/**
+ * Achievement Definitions
+ * Catalog of achievements and the rules that unlock them
+ */
+
+export interface AchievementTest {
+  wpm: number;
+  accuracy: number;
+  consistency: number | null;
+  characters: number; // characters scored in the test
+}
+
+// Flagged tests do not count toward any of these
+export interface AchievementStats {
+  unflagged_tests: number;
+  unflagged_time_typing: number; // seconds
+  unflagged_streak: number; // days
+}
+
+export interface AchievementContext {
+  test: AchievementTest | null; // null when the test does not count (e.g. flagged)
+  stats: AchievementStats;
+}
+
+export interface AchievementDefinition {
+  key: string;
+  name: string;
+  description: string;
+  isEarned: (context: AchievementContext) => boolean;
+}
+
+// Shorter tests are too easy to finish without a mistake
+const MIN_CHARACTERS_FOR_ACCURACY = 100;
+
+/**
+ * Achievement for reaching a WPM in a single test
+ */
+function wpmAchievement(wpm: number): AchievementDefinition {
+  return {
+    key: `wpm_${wpm}`,
+    name: `${wpm} WPM`,
+    description: `Finish a test at ${wpm} WPM or faster`,
+    isEarned: ({ test }) => test !== null && test.wpm >= wpm,
+  };
+}
+
+/**
+ * Achievement for completing a number of tests
+ */
+function testCountAchievement(count: number): AchievementDefinition {
+  return {
+    key: `tests_${count}`,
+    name: count === 1 ? "First Test" : `${count} Tests`,
+    description:
+      count === 1 ? "Complete your first test" : `Complete ${count} tests`,
+    isEarned: ({ stats }) => stats.unflagged_tests >= count,
+  };
+}
+
+/**
+ * Achievement for a daily practice streak
+ */
+function streakAchievement(days: number): AchievementDefinition {
+  return {
+    key: `streak_${days}`,
+    name: `${days} Day Streak`,
+    description: `Complete a test on ${days} days in a row`,
+    isEarned: ({ stats }) => stats.unflagged_streak >= days,
+  };
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  testCountAchievement(1),
+  testCountAchievement(10),
+  testCountAchievement(100),
+  testCountAchievement(1000),
+  wpmAchievement(50),
+  wpmAchievement(80),
+  wpmAchievement(100),
+  wpmAchievement(120),
+  wpmAchievement(150),
+  {
+    key: "accuracy_100",
+    name: "Flawless",
+    description: `Finish a test of at least ${MIN_CHARACTERS_FOR_ACCURACY} characters with 100% accuracy`,
+    isEarned: ({ test }) =>
+      test !== null &&
+      test.accuracy >= 100 &&
+      test.characters >= MIN_CHARACTERS_FOR_ACCURACY,
+  },
+  {
+    key: "consistency_90",
+    name: "Metronome",
+    description: "Finish a test with 90% consistency or better",
+    isEarned: ({ test }) => test !== null && (test.consistency ?? 0) >= 90,
+  },
+  {
+    key: "time_1h",
+    name: "Dedicated",
+    description: "Spend an hour typing in total",
+    isEarned: ({ stats }) => stats.unflagged_time_typing >= 60 * 60,
+  },
+  streakAchievement(3),
+  streakAchievement(7),
+  streakAchievement(10),
+  streakAchievement(30),
+];
+
+const ACHIEVEMENTS_BY_KEY = new Map(ACHIEVEMENTS.map((a) => [a.key, a]));
+
+/**
+ * Evaluate every achievement rule
+ *
+ * @param context - The new test and the user's updated statistics
+ * @returns Keys of all achievements the context satisfies
+ */
+export function evaluateAchievements(context: AchievementContext): string[] {
+  return ACHIEVEMENTS.filter((a) => a.isEarned(context)).map((a) => a.key);
+}
+
+/**
+ * Describe an earned achievement for API responses
+ *
+ * @param key - Achievement key
+ * @param earnedAt - When it was earned
+ * @returns Key, display name, description and earned time
+ */
+export function describeAchievement(key: string, earnedAt: Date) {
+  const definition = ACHIEVEMENTS_BY_KEY.get(key);
+  return {
+    key,
+    name: definition?.name ?? key,
+    description: definition?.description ?? null,
+    earned_at: earnedAt,
+  };
+}
+
+export default {
+  ACHIEVEMENTS,
+  evaluateAchievements,
+  describeAchievement,
+};
@@ -0,0 +1,120 @@
+import config from "../config";
+import { KeystrokeEvent, replayKeystrokes } from "./keystrokes";
+import { BotVerdict } from "./botDetection";
+
+/**
+ * Anti-cheat Utilities
+ * Turns submission signals into a risk score and stored flag reasons
+ */
+
+export type FlagReason =
+  | "suspicious_paste"
+  | "unusual_speed"
+  | "long_gap"
+  | "wpm_out_of_range"
+  | "missing_input_history"
+  | "input_mismatch"
+  | "bot_like_timing";
+
+export interface Anomalies {
+  suspiciousPaste: boolean;
+  longGapDetected: boolean;
+  unusualSpeed: boolean;
+}
+
+export interface RiskSignals {
+  wpm: number;
+  typedText: string;
+  keystrokes: KeystrokeEvent[];
+  anomalies: Anomalies | null;
+  bot: BotVerdict | null;
+}
+
+export interface RiskAssessment {
+  score: number; // 0-100
+  reasons: FlagReason[];
+  flagged: boolean;
+}
+
+// Points each reason adds to the risk score
+const REASON_WEIGHTS: Record<FlagReason, number> = {
+  suspicious_paste: 40,
+  unusual_speed: 50,
+  long_gap: 10,
+  wpm_out_of_range: 60,
+  // Every other check needs keystrokes, so leaving them out flags on its own
+  missing_input_history: config.antiCheat.flagThreshold,
+  input_mismatch: 40,
+  bot_like_timing: 60,
+};
+
+// Edits may insert this share of the typed text (at least the minimum)
+// before they look like pasted text
+const MAX_EDIT_INSERT_SHARE = 0.1;
+const MIN_EDIT_INSERT_ALLOWANCE = 20;
+
+/**
+ * Count characters put in by Edit events rather than typed key by key
+ */
+function countEditInserts(keystrokes: KeystrokeEvent[]): number {
+  return keystrokes.reduce(
+    (sum, stroke) => sum + (stroke.edit ? stroke.edit.insert.length : 0),
+    0,
+  );
+}
+
+/**
+ * Assess how likely a submission is to be cheated
+ * A test is flagged once its score reaches the configured threshold
+ *
+ * @param signals - Metrics and keystrokes of the submission
+ * @returns Risk score, reasons and whether the test is flagged
+ */
+export function assessRisk(signals: RiskSignals): RiskAssessment {
+  const { wpm, typedText, keystrokes, anomalies, bot } = signals;
+  const reasons: FlagReason[] = [];
+
+  const editInserts = countEditInserts(keystrokes);
+  if (
+    anomalies?.suspiciousPaste ||
+    editInserts >
+      Math.max(
+        MIN_EDIT_INSERT_ALLOWANCE,
+        typedText.length * MAX_EDIT_INSERT_SHARE,
+      )
+  ) {
+    reasons.push("suspicious_paste");
+  }
+  if (anomalies?.unusualSpeed) reasons.push("unusual_speed");
+  if (anomalies?.longGapDetected) reasons.push("long_gap");
+  if (bot?.isBot) reasons.push("bot_like_timing");
+
+  if (wpm > config.typing.maxWPM) {
+    reasons.push("wpm_out_of_range");
+  }
+
+  // Submitted text must be what the keystrokes actually produce
+  if (typedText.length > 0 && keystrokes.length === 0) {
+    reasons.push("missing_input_history");
+  } else if (
+    keystrokes.length > 0 &&
+    replayKeystrokes(keystrokes) !== typedText
+  ) {
+    reasons.push("input_mismatch");
+  }
+
+  const score = Math.min(
+    100,
+    reasons.reduce((sum, reason) => sum + REASON_WEIGHTS[reason], 0),
+  );
+
+  return {
+    score,
+    reasons,
+    flagged: score >= config.antiCheat.flagThreshold,
+  };
+}
+
+export default {
+  assessRisk,
+};
@@ -0,0 +1,154 @@
+import { KeystrokeEvent } from "./keystrokes";
+
+/**
+ * Bot Detection Utilities
+ * Scores a keystroke stream against the timing signatures of human typing
+ *
+ * Human inter-key intervals vary a lot from key to key (coefficient of
+ * variation usually above 0.3), key hold times spread over a skewed range,
+ * and long passages almost always contain corrections. Scripts replaying
+ * text tend to fire at a fixed or narrowly jittered interval, hold every
+ * key for the same time and never backspace. A history too short to
+ * judge is itself suspicious, since it is the easiest way to dodge the
+ * other checks.
+ */
+
+export type BotSignal =
+  | "uniform_intervals"
+  | "quantized_intervals"
+  | "uniform_dwell"
+  | "no_corrections"
+  | "too_few_intervals";
+
+export interface BotVerdict {
+  score: number; // 0-100
+  signals: BotSignal[];
+  isBot: boolean;
+  sampleSize: number; // intervals the verdict is based on
+  intervalVariation: number | null; // coefficient of variation
+  dwellVariation: number | null; // coefficient of variation
+}
+
+// Fewer intervals than this are not enough to judge, and are flagged
+const MIN_INTERVALS = 30;
+
+// Gaps longer than this are pauses, not typing rhythm
+const PAUSE_MS = 2000;
+
+// Keystrokes without a single correction before it counts as a signal
+const MIN_KEYSTROKES_FOR_CORRECTIONS = 100;
+
+const INTERVAL_CV_THRESHOLD = 0.15;
+const DWELL_CV_THRESHOLD = 0.1;
+const QUANTIZED_SHARE_THRESHOLD = 0.5;
+
+const BOT_THRESHOLD = 50;
+
+const SIGNAL_WEIGHTS: Record<BotSignal, number> = {
+  uniform_intervals: 50,
+  quantized_intervals: 30,
+  uniform_dwell: 30,
+  no_corrections: 15,
+  too_few_intervals: BOT_THRESHOLD,
+};
+
+/**
+ * Coefficient of variation (standard deviation / mean)
+ */
+function coefficientOfVariation(values: number[]): number | null {
+  if (values.length === 0) return null;
+
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  if (mean <= 0) return 0;
+
+  const variance =
+    values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance) / mean;
+}
+
+/**
+ * Share of values equal to the most common value
+ */
+function modeShare(values: number[]): number {
+  const counts = new Map<number, number>();
+  let max = 0;
+  for (const value of values) {
+    const count = (counts.get(value) || 0) + 1;
+    counts.set(value, count);
+    max = Math.max(max, count);
+  }
+  return values.length > 0 ? max / values.length : 0;
+}
+
+/**
+ * Detect scripted input from keystroke dynamics
+ *
+ * @param keystrokes - Normalized keystroke events
+ * @returns Bot score, the signals that fired and the measured variation
+ */
+export function detectBot(keystrokes: KeystrokeEvent[]): BotVerdict {
+  const intervals: number[] = [];
+  for (let i = 1; i < keystrokes.length; i++) {
+    const interval = keystrokes[i].time - keystrokes[i - 1].time;
+    if (interval <= PAUSE_MS) intervals.push(interval);
+  }
+
+  const dwells = keystrokes
+    .map((k) => k.dwell)
+    .filter((d): d is number => d !== undefined);
+
+  const intervalVariation = coefficientOfVariation(intervals);
+  const dwellVariation =
+    dwells.length >= MIN_INTERVALS ? coefficientOfVariation(dwells) : null;
+
+  if (intervals.length < MIN_INTERVALS) {
+    return {
+      score: SIGNAL_WEIGHTS.too_few_intervals,
+      signals: ["too_few_intervals"],
+      isBot: true,
+      sampleSize: intervals.length,
+      intervalVariation,
+      dwellVariation,
+    };
+  }
+
+  const signals: BotSignal[] = [];
+
+  if (intervalVariation !== null && intervalVariation < INTERVAL_CV_THRESHOLD) {
+    signals.push("uniform_intervals");
+  }
+
+  if (modeShare(intervals) > QUANTIZED_SHARE_THRESHOLD) {
+    signals.push("quantized_intervals");
+  }
+
+  // Only judged when the client reports key hold times
+  if (dwellVariation !== null && dwellVariation < DWELL_CV_THRESHOLD) {
+    signals.push("uniform_dwell");
+  }
+
+  if (
+    keystrokes.length >= MIN_KEYSTROKES_FOR_CORRECTIONS &&
+    !keystrokes.some((k) => k.char === "Backspace" || k.char === "Edit")
+  ) {
+    signals.push("no_corrections");
+  }
+
+  const score = Math.min(
+    100,
+    signals.reduce((sum, signal) => sum + SIGNAL_WEIGHTS[signal], 0),
+  );
+
+  return {
+    score,
+    signals,
+    isBot: score >= BOT_THRESHOLD,
+    sampleSize: intervals.length,
+    intervalVariation,
+    dwellVariation,
+  };
+}
+
+export default {
+  detectBot,
+};
@@ -0,0 +1,109 @@
+/**
+ * Custom Theme Utilities
+ * Validation for user-defined color themes and shareable theme codes
+ */
+
+export const THEME_COLOR_KEYS = [
+  "background",
+  "text",
+  "caret",
+  "correct",
+  "error",
+  "accent",
+] as const;
+
+export type ThemeColorKey = (typeof THEME_COLOR_KEYS)[number];
+
+export type ThemeColors = Record<ThemeColorKey, string>;
+
+export interface CustomTheme {
+  name: string;
+  colors: ThemeColors;
+  shared: boolean; // listed in the community gallery
+}
+
+const MAX_NAME_LENGTH = 32;
+
+// 18 color bytes in base64url
+const THEME_CODE_PATTERN = /^[A-Za-z0-9_-]{24}$/;
+
+/**
+ * Check for a six-digit hex color, e.g. '#e2b714'
+ */
+export function isHexColor(value: unknown): boolean {
+  return typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+/**
+ * Check a custom theme submitted by a client
+ *
+ * @param value - Parsed request value
+ * @returns True when it has a name and a valid color for every key
+ */
+export function isCustomTheme(value: any): boolean {
+  if (!value || typeof value !== "object" || !value.colors) return false;
+
+  const name = typeof value.name === "string" ? value.name.trim() : "";
+  if (name.length < 1 || name.length > MAX_NAME_LENGTH) return false;
+
+  if (value.shared !== undefined && typeof value.shared !== "boolean") {
+    return false;
+  }
+
+  return THEME_COLOR_KEYS.every((key) => isHexColor(value.colors[key]));
+}
+
+/**
+ * Keep only the known fields of a valid custom theme
+ *
+ * @param value - Theme that passed isCustomTheme
+ * @returns Theme with a trimmed name and lowercase colors
+ */
+export function normalizeCustomTheme(value: any): CustomTheme {
+  const colors = {} as ThemeColors;
+  for (const key of THEME_COLOR_KEYS) {
+    colors[key] = value.colors[key].toLowerCase();
+  }
+
+  return {
+    name: value.name.trim(),
+    colors,
+    shared: value.shared === true,
+  };
+}
+
+/**
+ * Encode theme colors as a short shareable code
+ * Same format as the client: the six colors packed into 18 bytes and
+ * base64url encoded (24 chars)
+ */
+export function encodeThemeCode(colors: ThemeColors): string {
+  const hex = THEME_COLOR_KEYS.map((key) => colors[key].slice(1)).join("");
+  return Buffer.from(hex, "hex").toString("base64url");
+}
+
+/**
+ * Decode a theme code made by encodeThemeCode
+ *
+ * @returns Lowercase colors, or null when the code is malformed
+ */
+export function decodeThemeCode(code: string): ThemeColors | null {
+  const trimmed = code.trim();
+  if (!THEME_CODE_PATTERN.test(trimmed)) return null;
+
+  const hex = Buffer.from(trimmed, "base64url").toString("hex");
+  const colors = {} as ThemeColors;
+  THEME_COLOR_KEYS.forEach((key, i) => {
+    colors[key] = `#${hex.slice(i * 6, i * 6 + 6)}`;
+  });
+  return colors;
+}
+
+export default {
+  THEME_COLOR_KEYS,
+  isHexColor,
+  isCustomTheme,
+  normalizeCustomTheme,
+  encodeThemeCode,
+  decodeThemeCode,
+};
@@ -0,0 +1,25 @@
+/**
+ * Date Range Utilities
+ * Bounds for ISO 8601 date ranges in query strings
+ */
+
+/**
+ * Turn an inclusive ISO 8601 `to` bound into an exclusive one
+ * A date-only value covers that whole day
+ *
+ * @param to - ISO 8601 date or timestamp
+ * @returns First instant after the range
+ */
+export function rangeEndExclusive(to: string): Date {
+  const end = new Date(to);
+  if (/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    end.setUTCDate(end.getUTCDate() + 1);
+  } else {
+    end.setTime(end.getTime() + 1);
+  }
+  return end;
+}
+
+export default {
+  rangeEndExclusive,
+};
@@ -1,4 +1,5 @@
 import jwt from "jsonwebtoken";
+import { randomUUID } from "crypto";
 import config from "../config";
 import { logger } from "./logger";
 
@@ -12,6 +13,7 @@ export interface JWTPayload {
   userId: string;
   username: string;
   email: string;
+  sessionId?: string; // refresh token family the access token came from
 }
 
 export interface TokenPair {
@@ -74,6 +76,7 @@ export function generateAccessToken(payload: JWTPayload): string {
 
 /**
  * Generate JWT refresh token
+ * A random token ID keeps every token unique, even within the same second
  */
 export function generateRefreshToken(userId: string): string {
   const secret = Buffer.from(config.jwt.secret);
@@ -81,9 +84,18 @@ export function generateRefreshToken(userId: string): string {
   return jwt.sign({ userId }, secret, {
     expiresIn: config.jwt.refreshExpiry,
     algorithm: "HS256" as const,
+    jwtid: randomUUID(),
   });
 }
 
+/**
+ * Read the expiry time of a token this module signed
+ */
+export function getTokenExpiry(token: string): Date {
+  const { exp } = jwt.decode(token) as { exp: number };
+  return new Date(exp * 1000);
+}
+
 /**
  * Generate both access and refresh tokens
  */
@@ -194,6 +206,7 @@ export default {
   generateAccessToken,
   generateRefreshToken,
   generateTokenPair,
+  getTokenExpiry,
   verifyToken,
   verifyRefreshToken,
 };
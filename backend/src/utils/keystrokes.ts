@@ -0,0 +1,319 @@
+/**
+ * Keystroke Utilities
+ * Normalizes stored input_history into a clean event stream
+ */
+
+/**
+ * Change to the input that is not a single keystroke at the end
+ * (word deletes, edits mid-text, auto-correct, IME composition, paste)
+ */
+export interface TextEdit {
+  at: number; // index where the change starts
+  remove: number; // characters removed from there
+  insert: string; // characters put in their place
+}
+
+export interface InputEvent {
+  timestamp: number;
+  char: string;
+  dwell?: number; // milliseconds the key was held, when the client reports it
+  edit?: TextEdit; // with char "Edit"
+}
+
+export interface KeystrokeEvent {
+  time: number; // milliseconds since the first keystroke
+  char: string; // typed character, "Backspace" or "Edit"
+  dwell?: number;
+  edit?: TextEdit;
+}
+
+export interface AnnotatedKeystroke extends KeystrokeEvent {
+  expected: string | null; // prompt character at the cursor, null for Backspace, Edit or past the end
+  correct: boolean;
+  latency: number | null; // milliseconds since the previous keystroke
+}
+
+export interface KeyStat {
+  key: string;
+  samples: number;
+  errors: number;
+  latencyTotal: number; // sum of latencies that count towards the average
+  latencySamples: number;
+}
+
+export interface NgramStat {
+  ngram: string;
+  n: number;
+  samples: number;
+  errors: number;
+  transitionTotal: number; // sum of first-to-last key times that count towards the average
+  transitionSamples: number;
+}
+
+// Pauses longer than this are hesitation, not key latency
+const MAX_LATENCY_MS = 2000;
+
+/**
+ * Check the edit carried by an "Edit" event
+ */
+function isTextEdit(value: any): value is TextEdit {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    Number.isInteger(value.at) &&
+    value.at >= 0 &&
+    Number.isInteger(value.remove) &&
+    value.remove >= 0 &&
+    typeof value.insert === "string"
+  );
+}
+
+/**
+ * Apply one keystroke to the text typed so far
+ *
+ * @param text - Text before the keystroke
+ * @param stroke - Character, Backspace or Edit event
+ * @returns Text after the keystroke; other keys leave it unchanged
+ */
+export function applyKeystroke(text: string, stroke: KeystrokeEvent): string {
+  if (stroke.char === "Backspace") return text.slice(0, -1);
+  if (stroke.char === "Edit" && stroke.edit) {
+    const { at, remove, insert } = stroke.edit;
+    return text.slice(0, at) + insert + text.slice(at + remove);
+  }
+  return stroke.char.length === 1 ? text + stroke.char : text;
+}
+
+/**
+ * Rebuild the final text a keystroke stream produces
+ *
+ * @param keystrokes - Normalized keystrokes
+ * @returns Typed text after applying backspaces and edits
+ */
+export function replayKeystrokes(keystrokes: KeystrokeEvent[]): string {
+  return keystrokes.reduce(applyKeystroke, "");
+}
+
+/**
+ * Normalize raw input history
+ * Drops malformed entries, orders by timestamp and rebases times so the
+ * first keystroke is at 0ms (clients may send absolute or relative times)
+ *
+ * @param inputHistory - Raw input_history value from the client or database
+ * @returns Ordered keystroke events
+ */
+export function normalizeInputHistory(inputHistory: unknown): KeystrokeEvent[] {
+  if (!Array.isArray(inputHistory)) return [];
+
+  const events = inputHistory
+    .filter(
+      (e): e is InputEvent =>
+        e !== null &&
+        typeof e === "object" &&
+        Number.isFinite(e.timestamp) &&
+        typeof e.char === "string" &&
+        e.char.length > 0 &&
+        (e.char !== "Edit" || isTextEdit(e.edit)),
+    )
+    .map((e) => ({
+      timestamp: e.timestamp,
+      char: e.char,
+      dwell:
+        Number.isFinite(e.dwell) && (e.dwell as number) >= 0
+          ? e.dwell
+          : undefined,
+      edit: e.char === "Edit" ? (e.edit as TextEdit) : undefined,
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  if (events.length === 0) return [];
+
+  const start = events[0].timestamp;
+  return events.map((e) => ({
+    time: Math.round(e.timestamp - start),
+    char: e.char,
+    ...(e.dwell !== undefined && { dwell: Math.round(e.dwell) }),
+    ...(e.edit && {
+      edit: { at: e.edit.at, remove: e.edit.remove, insert: e.edit.insert },
+    }),
+  }));
+}
+
+/**
+ * Annotate keystrokes with the prompt character they were aimed at
+ * Tracks a word-aligned cursor like classifyWords: space moves to the next
+ * prompt word, typing past a word's end expects the space, and Backspace at
+ * the start of a word returns to the end of the previous one. An Edit moves
+ * the cursor to the end of the edited text
+ * Non-character keys (Shift, arrows, ...) are dropped
+ *
+ * @param originalText - The prompt text
+ * @param events - Normalized keystroke events
+ * @returns Keystrokes with expected character, correctness and latency
+ */
+export function annotateKeystrokes(
+  originalText: string,
+  events: KeystrokeEvent[],
+): AnnotatedKeystroke[] {
+  const words = originalText.split(" ");
+  const annotated: AnnotatedKeystroke[] = [];
+  const typedWordLengths: number[] = [];
+  let wordIndex = 0;
+  let charIndex = 0;
+  let text = "";
+  let previousTime: number | null = null;
+
+  const expectedAt = (): string | null => {
+    const word = words[wordIndex];
+    if (word === undefined) return null;
+    if (charIndex < word.length) return word[charIndex];
+    return wordIndex < words.length - 1 ? " " : null;
+  };
+
+  for (const event of events) {
+    const isBackspace = event.char === "Backspace";
+    const isEdit = event.char === "Edit" && event.edit !== undefined;
+    if (!isBackspace && !isEdit && event.char.length !== 1) continue;
+
+    const latency = previousTime === null ? null : event.time - previousTime;
+    previousTime = event.time;
+    text = applyKeystroke(text, event);
+
+    if (isEdit) {
+      const typedWords = text.split(" ");
+      charIndex = (typedWords.pop() as string).length;
+      typedWordLengths.splice(0, typedWordLengths.length);
+      typedWordLengths.push(...typedWords.map((word) => word.length));
+      wordIndex = typedWordLengths.length;
+      annotated.push({ ...event, expected: null, correct: true, latency });
+      continue;
+    }
+
+    if (isBackspace) {
+      if (charIndex > 0) {
+        charIndex--;
+      } else if (wordIndex > 0) {
+        wordIndex--;
+        charIndex = typedWordLengths.pop() ?? 0;
+      }
+      annotated.push({ ...event, expected: null, correct: true, latency });
+      continue;
+    }
+
+    const expected = expectedAt();
+    annotated.push({
+      ...event,
+      expected,
+      correct: expected === event.char,
+      latency,
+    });
+
+    if (event.char === " ") {
+      typedWordLengths.push(charIndex);
+      wordIndex++;
+      charIndex = 0;
+    } else {
+      charIndex++;
+    }
+  }
+
+  return annotated;
+}
+
+/**
+ * Aggregate per-key error counts and latency
+ * Keystrokes are attributed to the key the prompt asked for (lowercased)
+ *
+ * @param keystrokes - Annotated keystrokes
+ * @returns One entry per prompt key
+ */
+export function aggregateKeyStats(keystrokes: AnnotatedKeystroke[]): KeyStat[] {
+  const stats = new Map<string, KeyStat>();
+
+  for (const stroke of keystrokes) {
+    if (stroke.expected === null) continue;
+
+    const key = stroke.expected.toLowerCase();
+    let stat = stats.get(key);
+    if (!stat) {
+      stat = { key, samples: 0, errors: 0, latencyTotal: 0, latencySamples: 0 };
+      stats.set(key, stat);
+    }
+
+    stat.samples++;
+    if (!stroke.correct) stat.errors++;
+    if (stroke.latency !== null && stroke.latency <= MAX_LATENCY_MS) {
+      stat.latencyTotal += stroke.latency;
+      stat.latencySamples++;
+    }
+  }
+
+  return Array.from(stats.values());
+}
+
+/**
+ * Aggregate n-gram transition timing and errors
+ * An n-gram is n prompt characters typed in consecutive keystrokes with no
+ * Backspace in between; n-grams that cross a word boundary are skipped
+ *
+ * @param keystrokes - Annotated keystrokes
+ * @param n - N-gram size (2 for bigrams, 3 for trigrams)
+ * @returns One entry per n-gram
+ */
+export function aggregateNgramStats(
+  keystrokes: AnnotatedKeystroke[],
+  n: number,
+): NgramStat[] {
+  const stats = new Map<string, NgramStat>();
+  let window: AnnotatedKeystroke[] = [];
+
+  for (const stroke of keystrokes) {
+    if (stroke.expected === null) {
+      window = [];
+      continue;
+    }
+
+    window.push(stroke);
+    if (window.length < n) continue;
+    if (window.length > n) window.shift();
+
+    if (window.some((s) => /\s/.test(s.expected as string))) continue;
+
+    const ngram = window
+      .map((s) => s.expected)
+      .join("")
+      .toLowerCase();
+    let stat = stats.get(ngram);
+    if (!stat) {
+      stat = {
+        ngram,
+        n,
+        samples: 0,
+        errors: 0,
+        transitionTotal: 0,
+        transitionSamples: 0,
+      };
+      stats.set(ngram, stat);
+    }
+
+    stat.samples++;
+    if (window.some((s) => !s.correct)) stat.errors++;
+
+    const transition = window[n - 1].time - window[0].time;
+    if (transition <= MAX_LATENCY_MS * (n - 1)) {
+      stat.transitionTotal += transition;
+      stat.transitionSamples++;
+    }
+  }
+
+  return Array.from(stats.values());
+}
+
+export default {
+  normalizeInputHistory,
+  applyKeystroke,
+  replayKeystrokes,
+  annotateKeystrokes,
+  aggregateKeyStats,
+  aggregateNgramStats,
+};
@@ -0,0 +1,101 @@
+import config from "../config";
+import { generateRandomWords } from "./randomUtils";
+
+/**
+ * Test Text Generation
+ * Builds prompt text from a word list for a given test configuration
+ */
+
+export type GeneratorMode = "time" | "words";
+export type GeneratorTestType = "normal" | "punctuation" | "numbers";
+
+export interface TextGenerationOptions {
+  mode: GeneratorMode;
+  testType: GeneratorTestType;
+  length: number; // seconds for "time" mode, word count for "words" mode
+}
+
+const SENTENCE_ENDINGS = [".", ".", ".", "?", "!"];
+const CLAUSE_MARKS = [",", ",", ";", ":"];
+
+/**
+ * Resolve how many words a test needs
+ * Time mode generates enough words that even the fastest allowed typist
+ * cannot run out of text before the timer ends
+ *
+ * @param mode - Test mode
+ * @param length - Seconds for time mode, word count for words mode
+ * @returns Number of words to generate
+ */
+export function resolveWordCount(mode: GeneratorMode, length: number): number {
+  const count =
+    mode === "time"
+      ? Math.ceil((length / 60) * config.typing.maxWPM)
+      : Math.floor(length);
+
+  return Math.max(1, Math.min(count, config.typing.maxGeneratedWords));
+}
+
+/**
+ * Add capitalization and punctuation marks to a word sequence
+ */
+function punctuate(words: string[]): string[] {
+  let startOfSentence = true;
+
+  return words.map((word, idx) => {
+    let result = startOfSentence
+      ? word.charAt(0).toUpperCase() + word.slice(1)
+      : word;
+    startOfSentence = false;
+
+    const isLast = idx === words.length - 1;
+    const roll = Math.random();
+
+    if (isLast || roll < 0.1) {
+      result +=
+        SENTENCE_ENDINGS[Math.floor(Math.random() * SENTENCE_ENDINGS.length)];
+      startOfSentence = true;
+    } else if (roll < 0.2) {
+      result += CLAUSE_MARKS[Math.floor(Math.random() * CLAUSE_MARKS.length)];
+    }
+
+    return result;
+  });
+}
+
+/**
+ * Replace a share of the words with random numbers
+ */
+function sprinkleNumbers(words: string[]): string[] {
+  return words.map((word) =>
+    Math.random() < 0.15 ? String(Math.floor(Math.random() * 10000)) : word,
+  );
+}
+
+/**
+ * Generate prompt text for a typing test
+ *
+ * @param wordList - Pool of words to draw from
+ * @param options - Mode, test type and length
+ * @returns Space separated prompt text
+ */
+export function generateTestText(
+  wordList: string[],
+  options: TextGenerationOptions,
+): string {
+  const count = resolveWordCount(options.mode, options.length);
+  let words = generateRandomWords(count, wordList);
+
+  if (options.testType === "punctuation") {
+    words = punctuate(words);
+  } else if (options.testType === "numbers") {
+    words = sprinkleNumbers(words);
+  }
+
+  return words.join(" ");
+}
+
+export default {
+  resolveWordCount,
+  generateTestText,
+};
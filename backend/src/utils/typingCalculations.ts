@@ -1,8 +1,21 @@
+import {
+  annotateKeystrokes,
+  InputEvent,
+  normalizeInputHistory,
+} from "./keystrokes";
+
 /**
  * Typing Test Calculations
  * Core business logic for WPM, accuracy, and consistency
  */
 
+export interface WpmSeriesPoint {
+  second: number; // 1-based bucket index
+  wpm: number; // net WPM from the start of the test to the end of this second
+  rawWpm: number; // WPM of all keystrokes within this second
+  errors: number; // incorrect keystrokes within this second
+}
+
 /**
  * Calculate Words Per Minute (WPM)
  * Formula: (total_characters / 5) / time_in_minutes
@@ -47,7 +60,7 @@ export function calculateRawWPM(
  * Formula: (correct_characters / total_characters_in_prompt) * 100
  *
  * @param correctCharacters - Number of correctly typed characters
- * @param totalCharactersInPrompt - Total characters in the original text
+ * @param totalCharactersInPrompt - Total scored characters of the prompt
  * @returns Accuracy percentage 0-100, rounded to 2 decimals
  */
 export function calculateAccuracy(
@@ -62,7 +75,8 @@ export function calculateAccuracy(
 /**
  * Calculate Consistency
  * Measures how consistent the user's typing speed was throughout the test
- * Lower standard deviation = higher consistency
+ * Based on the coefficient of variation (stdDev / mean) of the samples
+ * Lower variation = higher consistency
  * Formula: 1 - (stdDev / mean)
  *
  * @param wpmHistory - Array of WPM values measured at intervals (e.g., every second)
@@ -85,9 +99,80 @@ export function calculateConsistency(wpmHistory: number[]): number {
   return Math.max(0, Math.min(100, Math.round(consistency * 100) / 100));
 }
 
+export type CharState =
+  "correct" | "incorrect" | "extra" | "missed" | "pending";
+
+export interface ClassifiedChar {
+  char: string; // prompt character, or the typed character for extras
+  state: CharState;
+}
+
+export interface ClassifiedWord {
+  expected: string;
+  typed: string;
+  chars: ClassifiedChar[];
+}
+
+/**
+ * Word-aligned Classification
+ * Splits prompt and input on spaces and compares each typed word with the
+ * prompt word at the same index, so a skipped or extra character only
+ * affects the word it happened in
+ *
+ * - correct/incorrect: typed character matches/differs from the prompt
+ * - extra: typed past the end of the prompt word
+ * - missed: prompt characters left out of a word the user moved past
+ * - pending: not reached yet (the current word's remainder and later words)
+ *
+ * @param originalText - The prompt text
+ * @param typedText - What the user typed
+ * @returns One entry per prompt word, plus any words typed past the prompt
+ */
+export function classifyWords(
+  originalText: string,
+  typedText: string,
+): ClassifiedWord[] {
+  const expectedWords = originalText.split(" ");
+  const typedWords = typedText.split(" ");
+  const currentIndex = typedWords.length - 1;
+  const words: ClassifiedWord[] = [];
+
+  const wordCount = Math.max(expectedWords.length, typedWords.length);
+  for (let i = 0; i < wordCount; i++) {
+    const expected = expectedWords[i] ?? "";
+    const typed = typedWords[i] ?? "";
+    const completed = i < currentIndex;
+    const chars: ClassifiedChar[] = [];
+
+    const maxLen = Math.max(expected.length, typed.length);
+    for (let j = 0; j < maxLen; j++) {
+      if (j >= expected.length) {
+        chars.push({ char: typed[j], state: "extra" });
+      } else if (j >= typed.length) {
+        chars.push({
+          char: expected[j],
+          state: completed ? "missed" : "pending",
+        });
+      } else {
+        chars.push({
+          char: expected[j],
+          state: typed[j] === expected[j] ? "correct" : "incorrect",
+        });
+      }
+    }
+
+    words.push({ expected, typed, chars });
+  }
+
+  return words;
+}
+
 /**
  * Character Classification
- * Classifies each character typed as correct, incorrect, extra, or missed
+ * Counts correct, incorrect, extra, and missed characters using
+ * word-aligned classification (see classifyWords)
+ * Spaces that separate typed words count as correct; spaces typed past the
+ * end of the prompt count as extra
  *
  * @param originalText - The prompt text
  * @param typedText - What the user typed
@@ -102,31 +187,22 @@ export function classifyCharacters(
   extra: number;
   missed: number;
 } {
-  let correct = 0;
-  let incorrect = 0;
-  let extra = 0;
-  let missed = 0;
-
-  // Count correct and incorrect characters
-  const maxLen = Math.max(originalText.length, typedText.length);
-  for (let i = 0; i < maxLen; i++) {
-    const originalChar = originalText[i];
-    const typedChar = typedText[i];
-
-    if (originalChar === undefined) {
-      // User typed extra characters
-      extra++;
-    } else if (typedChar === undefined) {
-      // User didn't type enough characters
-      missed++;
-    } else if (originalChar === typedChar) {
-      correct++;
-    } else {
-      incorrect++;
+  const counts = { correct: 0, incorrect: 0, extra: 0, missed: 0 };
+
+  for (const word of classifyWords(originalText, typedText)) {
+    for (const { state } of word.chars) {
+      if (state !== "pending") counts[state]++;
     }
   }
 
-  return { correct, incorrect, extra, missed };
+  // Word separators
+  const spacesTyped = typedText.split(" ").length - 1;
+  const spacesInPrompt = originalText.split(" ").length - 1;
+  const correctSpaces = Math.min(spacesTyped, spacesInPrompt);
+  counts.correct += correctSpaces;
+  counts.extra += spacesTyped - correctSpaces;
+
+  return counts;
 }
 
 /**
@@ -188,6 +264,62 @@ export function detectAnomalies(
   return { suspiciousPaste, longGapDetected, unusualSpeed };
 }
 
+/**
+ * Build Per-second WPM Series
+ * Buckets keystrokes into one-second windows from the first keystroke
+ * A final partial second is scaled to its actual length
+ *
+ * @param originalText - The prompt text
+ * @param inputHistory - Input events (absolute or relative timestamps)
+ * @param timeInSeconds - Test length; later keystrokes fall in the last bucket
+ * @returns One point per second
+ */
+export function buildWpmSeries(
+  originalText: string,
+  inputHistory: InputEvent[],
+  timeInSeconds: number,
+): WpmSeriesPoint[] {
+  const keystrokes = annotateKeystrokes(
+    originalText,
+    normalizeInputHistory(inputHistory),
+  );
+  if (keystrokes.length === 0 || timeInSeconds <= 0) return [];
+
+  const bucketCount = Math.ceil(timeInSeconds);
+  const typed = new Array(bucketCount).fill(0);
+  const correct = new Array(bucketCount).fill(0);
+  const errors = new Array(bucketCount).fill(0);
+
+  for (const stroke of keystrokes) {
+    if (stroke.char === "Backspace" || stroke.char === "Edit") continue;
+
+    const bucket = Math.min(bucketCount - 1, Math.floor(stroke.time / 1000));
+    typed[bucket]++;
+    if (stroke.correct) {
+      correct[bucket]++;
+    } else {
+      errors[bucket]++;
+    }
+  }
+
+  const series: WpmSeriesPoint[] = [];
+  let correctSoFar = 0;
+
+  for (let i = 0; i < bucketCount; i++) {
+    const bucketSeconds = Math.min(1, timeInSeconds - i);
+    correctSoFar += correct[i];
+
+    series.push({
+      second: i + 1,
+      wpm: calculateWPM(correctSoFar, i + bucketSeconds),
+      rawWpm: calculateRawWPM(typed[i], bucketSeconds),
+      errors: errors[i],
+    });
+  }
+
+  return series;
+}
+
 /**
  * Calculate all test metrics at once
  * Convenience function for processing a completed test
@@ -196,26 +328,22 @@ export function calculateTestMetrics(
   originalText: string,
   typedText: string,
   timeInSeconds: number,
-  inputHistory?: Array<{ timestamp: number; char: string }>,
+  inputHistory?: InputEvent[],
 ) {
   const chars = classifyCharacters(originalText, typedText);
   const wpm = calculateWPM(chars.correct, timeInSeconds);
   const rawWpm = calculateRawWPM(typedText.length, timeInSeconds);
-  const accuracy = calculateAccuracy(chars.correct, originalText.length);
-
-  // Extract WPM history if available
-  let consistency = 0;
-  if (inputHistory && inputHistory.length > 0) {
-    const wpmHistoryPoints: number[] = [];
-    for (let i = 1; i < inputHistory.length; i++) {
-      const charsSoFar = inputHistory
-        .slice(0, i)
-        .filter((h) => h.char !== "Backspace").length;
-      const timeSoFar = inputHistory[i].timestamp / 1000; // convert to seconds
-      wpmHistoryPoints.push(calculateWPM(charsSoFar, timeSoFar));
-    }
-    consistency = calculateConsistency(wpmHistoryPoints);
-  }
+  // Untyped remainder of the prompt is not scored
+  const scoredCharacters =
+    chars.correct + chars.incorrect + chars.extra + chars.missed;
+  const accuracy = calculateAccuracy(chars.correct, scoredCharacters);
+
+  // Consistency over per-second raw WPM
+  const series =
+    inputHistory && inputHistory.length > 0
+      ? buildWpmSeries(originalText, inputHistory, timeInSeconds)
+      : [];
+  const consistency = calculateConsistency(series.map((p) => p.rawWpm));
 
   const anomalies = inputHistory ? detectAnomalies(inputHistory) : null;
 
@@ -225,6 +353,7 @@ export function calculateTestMetrics(
     accuracy,
     consistency,
     characters: chars,
+    series,
     anomalies,
   };
 }
@@ -234,7 +363,9 @@ export default {
   calculateRawWPM,
   calculateAccuracy,
   calculateConsistency,
+  classifyWords,
   classifyCharacters,
   detectAnomalies,
+  buildWpmSeries,
   calculateTestMetrics,
 };
@@ -6,8 +6,14 @@ import {
   Navigate,
 } from "react-router-dom";
 import { useAuthStore } from "./context/authStore";
+import { usePreferencesSync } from "./hooks/usePreferencesSync";
 import HomePage from "./pages/HomePage";
 import LoginPage from "./pages/LoginPage";
+import LeaderboardPage from "./pages/LeaderboardPage";
+import ReplayPage from "./pages/ReplayPage";
+import SettingsPage from "./pages/SettingsPage";
+import StatsPage from "./pages/StatsPage";
+import TestPage from "./pages/TestPage";
 import "./styles/globals.css";
 
 /**
@@ -16,17 +22,34 @@ import "./styles/globals.css";
 
 const App: FC = () => {
   const { isAuthenticated } = useAuthStore();
+  usePreferencesSync();
 
   return (
     <Router>
       <Routes>
         <Route path="/" element={<HomePage />} />
+        <Route path="/test" element={<TestPage />} />
+        <Route path="/leaderboard" element={<LeaderboardPage />} />
         <Route
           path="/login"
           element={isAuthenticated ? <Navigate to="/" /> : <LoginPage />}
         />
 
         {/* Protected routes would go here */}
+        <Route
+          path="/stats"
+          element={isAuthenticated ? <StatsPage /> : <Navigate to="/login" />}
+        />
+        <Route
+          path="/settings"
+          element={
+            isAuthenticated ? <SettingsPage /> : <Navigate to="/login" />
+          }
+        />
+        <Route
+          path="/tests/:testId/replay"
+          element={isAuthenticated ? <ReplayPage /> : <Navigate to="/login" />}
+        />
 
         {/* 404 */}
         <Route path="*" element={<Navigate to="/" />} />
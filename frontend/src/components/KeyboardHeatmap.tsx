@@ -0,0 +1,91 @@
+import { FC, memo } from "react";
+
+/**
+ * KeyboardHeatmap Component
+ * Shades each key by error rate or average press latency
+ */
+
+export interface KeyAnalytics {
+  key: string;
+  samples: number;
+  errors: number;
+  error_rate: number;
+  avg_latency: number | null;
+}
+
+export type HeatmapMetric = "errors" | "latency";
+
+interface KeyboardHeatmapProps {
+  keys: KeyAnalytics[];
+  metric: HeatmapMetric;
+}
+
+const KEY_ROWS = ["1234567890-=", "qwertyuiop[]", "asdfghjkl;'", "zxcvbnm,./"];
+
+// Tailwind red-400
+const HEAT_RGB = "248, 113, 113";
+
+const KeyboardHeatmap: FC<KeyboardHeatmapProps> = memo(({ keys, metric }) => {
+  const byKey = new Map(keys.map((k) => [k.key, k]));
+
+  const valueOf = (stat: KeyAnalytics): number | null =>
+    metric === "errors" ? stat.error_rate : stat.avg_latency;
+
+  const values = keys
+    .map(valueOf)
+    .filter((v): v is number => v !== null && v !== undefined);
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 0;
+
+  const renderKey = (key: string, label: string, className = "w-12") => {
+    const stat = byKey.get(key);
+    const value = stat ? valueOf(stat) : null;
+
+    if (!stat || value === null) {
+      return (
+        <div
+          key={key}
+          className={`${className} h-12 rounded flex items-center justify-center bg-slate-800 border border-slate-700 text-slate-600`}
+        >
+          {label}
+        </div>
+      );
+    }
+
+    const intensity = max > min ? (value - min) / (max - min) : 0;
+
+    return (
+      <div
+        key={key}
+        title={`${label}: ${stat.error_rate}% errors, ${stat.avg_latency ?? "-"} ms, ${stat.samples} samples`}
+        className={`${className} h-12 rounded flex items-center justify-center border border-slate-700 text-slate-100`}
+        style={{
+          backgroundColor: `rgba(${HEAT_RGB}, ${0.1 + intensity * 0.8})`,
+        }}
+      >
+        {label}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      {KEY_ROWS.map((row, idx) => (
+        <div
+          key={row}
+          className="flex gap-2"
+          style={{ paddingLeft: `${idx * 1.25}rem` }}
+        >
+          {row.split("").map((key) => renderKey(key, key))}
+        </div>
+      ))}
+      <div className="flex justify-center">
+        {renderKey(" ", "space", "w-80")}
+      </div>
+    </div>
+  );
+});
+
+KeyboardHeatmap.displayName = "KeyboardHeatmap";
+
+export default KeyboardHeatmap;
@@ -0,0 +1,112 @@
+import { FC, useEffect, useMemo, useState } from "react";
+import TypingDisplay from "./TypingDisplay";
+import { formatTime, KeystrokeEvent, replayTypedText } from "../utils/typing";
+
+/**
+ * ReplayPlayer Component
+ * Plays back a recorded test keystroke by keystroke
+ */
+
+interface ReplayPlayerProps {
+  originalText: string;
+  events: KeystrokeEvent[];
+}
+
+const SPEEDS = [0.5, 1, 2, 4];
+
+const ReplayPlayer: FC<ReplayPlayerProps> = ({ originalText, events }) => {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const totalTime = events.length > 0 ? events[events.length - 1].time : 0;
+
+  // Advance the playhead in real time, scaled by speed
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let frame: number;
+    let last = performance.now();
+
+    const tick = (now: number) => {
+      setCurrentTime((prev) =>
+        Math.min(totalTime, prev + (now - last) * speed),
+      );
+      last = now;
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, totalTime]);
+
+  // Stop at the end of the stream
+  useEffect(() => {
+    if (isPlaying && currentTime >= totalTime) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, currentTime, totalTime]);
+
+  const typedText = useMemo(
+    () => replayTypedText(events, currentTime),
+    [events, currentTime],
+  );
+
+  const togglePlay = () => {
+    if (!isPlaying && currentTime >= totalTime) {
+      setCurrentTime(0);
+    }
+    setIsPlaying((playing) => !playing);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <TypingDisplay originalText={originalText} typedText={typedText} />
+
+      <div className="bg-slate-800 rounded-lg p-4 border border-slate-700">
+        <input
+          type="range"
+          min={0}
+          max={totalTime}
+          step={10}
+          value={currentTime}
+          onChange={(e) => setCurrentTime(Number(e.target.value))}
+          className="w-full mb-4 accent-primary"
+        />
+
+        <div className="flex justify-between items-center">
+          <button
+            onClick={togglePlay}
+            disabled={events.length === 0}
+            className="py-2 px-6 bg-primary hover:bg-yellow-500 text-black font-bold rounded transition-colors disabled:opacity-50"
+          >
+            {isPlaying ? "Pause" : "Play"}
+          </button>
+
+          <span className="text-slate-400 text-sm">
+            {formatTime(Math.floor(currentTime / 1000))} /{" "}
+            {formatTime(Math.floor(totalTime / 1000))}
+          </span>
+
+          <div className="space-x-2">
+            {SPEEDS.map((s) => (
+              <button
+                key={s}
+                onClick={() => setSpeed(s)}
+                className={`py-1 px-3 rounded text-sm transition-colors ${
+                  speed === s
+                    ? "bg-primary text-black font-semibold"
+                    : "bg-slate-700 hover:bg-slate-600 text-slate-100"
+                }`}
+              >
+                {s}x
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayPlayer;
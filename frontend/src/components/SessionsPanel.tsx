@@ -0,0 +1,115 @@
+import { FC, useEffect, useState } from "react";
+import apiService from "../services/api";
+
+/**
+ * SessionsPanel Component
+ * Lists signed-in sessions and revokes them
+ */
+
+interface Session {
+  id: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  current: boolean;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+const SessionsPanel: FC = () => {
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = () =>
+    apiService
+      .getSessions()
+      .then((data) => setSessions(data.sessions))
+      .catch((err: any) =>
+        setError(err.response?.data?.error || "Failed to load sessions"),
+      );
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const handleRevoke = async (sessionId: string) => {
+    try {
+      await apiService.revokeSession(sessionId);
+      setSessions((current) => current.filter((s) => s.id !== sessionId));
+      setError(null);
+    } catch (err: any) {
+      setError(err.response?.data?.error || "Failed to revoke session");
+      loadSessions();
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      await apiService.revokeOtherSessions();
+      setSessions((current) => current.filter((s) => s.current));
+      setError(null);
+    } catch (err: any) {
+      setError(err.response?.data?.error || "Failed to revoke sessions");
+    }
+  };
+
+  const buttonClass =
+    "py-1 px-3 rounded text-sm transition-colors bg-slate-700 hover:bg-slate-600 text-slate-100";
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6 border border-slate-700 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-slate-100">Sessions</h3>
+        <button
+          onClick={handleRevokeOthers}
+          disabled={!sessions.some((s) => !s.current)}
+          className={`${buttonClass} disabled:opacity-50`}
+        >
+          Sign out other sessions
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500 bg-opacity-10 border border-red-500 rounded text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <ul className="divide-y divide-slate-700">
+        {sessions.map((session) => (
+          <li
+            key={session.id}
+            className="py-3 flex justify-between items-center gap-4"
+          >
+            <div className="min-w-0">
+              <p className="text-slate-100 truncate">
+                {session.user_agent || "Unknown device"}
+                {session.current && (
+                  <span className="ml-2 px-2 py-0.5 rounded bg-primary text-black text-xs font-semibold">
+                    This device
+                  </span>
+                )}
+              </p>
+              <p className="text-slate-400 text-sm">
+                {session.ip_address || "Unknown IP"} · signed in{" "}
+                {formatDate(session.created_at)} · last used{" "}
+                {formatDate(session.last_used_at)}
+              </p>
+            </div>
+            {!session.current && (
+              <button
+                onClick={() => handleRevoke(session.id)}
+                className={buttonClass}
+              >
+                Revoke
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionsPanel;
@@ -1,43 +1,101 @@
 import { FC, memo } from "react";
+import WpmChart, { WpmSeriesPoint } from "./WpmChart";
 
 /**
  * TestResults Component
  * Displays test results after completion
  */
 
+export interface CharacterBreakdown {
+  correct: number;
+  incorrect: number;
+  extra: number;
+  missed: number;
+}
+
+export interface PersonalBestOutcome {
+  set: boolean;
+  previous_wpm: number | null;
+  improvement: number | null;
+}
+
+export interface UnlockedAchievement {
+  key: string;
+  name: string;
+  description: string | null;
+}
+
 interface TestResultsProps {
   wpm: number;
+  rawWpm: number;
   accuracy: number;
   consistency: number;
-  totalCharacters: number;
-  correctCharacters: number;
-  errors: number;
+  characters: CharacterBreakdown;
+  series: WpmSeriesPoint[];
+  personalBest?: PersonalBestOutcome | null;
+  achievements?: UnlockedAchievement[];
   duration: number;
   difficulty: string;
   onRetry: () => void;
 }
 
+const CHARACTER_STATS: Array<{
+  key: keyof CharacterBreakdown;
+  label: string;
+  className: string;
+}> = [
+  { key: "correct", label: "Correct", className: "text-green-400" },
+  { key: "incorrect", label: "Incorrect", className: "text-red-400" },
+  { key: "extra", label: "Extra", className: "text-red-500" },
+  { key: "missed", label: "Missed", className: "text-slate-400" },
+];
+
 const TestResults: FC<TestResultsProps> = memo(
   ({
     wpm,
+    rawWpm,
     accuracy,
     consistency,
-    totalCharacters,
-    correctCharacters,
-    errors,
+    characters,
+    series,
+    personalBest,
+    achievements = [],
     duration,
     difficulty,
     onRetry,
   }) => {
     return (
-      <div className="max-w-2xl mx-auto">
+      <div className="max-w-3xl mx-auto">
         <div className="text-center mb-12">
           <h2 className="text-5xl font-bold mb-2 text-primary">
             {wpm.toFixed(2)} WPM
           </h2>
-          <p className="text-slate-400">Typing Test Complete!</p>
+          {personalBest?.set ? (
+            <p className="text-primary font-semibold">
+              New personal best!
+              {personalBest.improvement !== null &&
+                ` +${personalBest.improvement.toFixed(2)} WPM`}
+            </p>
+          ) : (
+            <p className="text-slate-400">Typing Test Complete!</p>
+          )}
         </div>
 
+        {/* Newly unlocked achievements */}
+        {achievements.length > 0 && (
+          <div className="mb-8 p-4 bg-primary bg-opacity-10 border border-primary rounded-lg">
+            <div className="text-primary font-semibold mb-2">
+              Achievement{achievements.length > 1 ? "s" : ""} unlocked!
+            </div>
+            {achievements.map((a) => (
+              <div key={a.key} className="text-sm text-slate-300">
+                <span className="font-semibold text-slate-100">{a.name}</span>
+                {a.description && ` - ${a.description}`}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Main Stats Grid */}
         <div className="grid grid-cols-2 gap-4 mb-8">
           <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
@@ -57,26 +115,33 @@ const TestResults: FC<TestResultsProps> = memo(
           </div>
         </div>
 
-        {/* Detailed Stats */}
-        <div className="grid grid-cols-3 gap-3 mb-8 text-sm">
-          <div className="bg-slate-800 rounded p-4 border border-slate-700 text-center">
-            <div className="text-slate-400 mb-1">Characters</div>
-            <div className="text-xl font-bold text-slate-100">
-              {totalCharacters}
-            </div>
+        {/* WPM over time */}
+        {series.length > 0 && (
+          <div className="bg-slate-800 rounded-lg p-4 border border-slate-700 mb-8">
+            <WpmChart series={series} />
           </div>
+        )}
 
+        {/* Character Breakdown */}
+        <div className="grid grid-cols-5 gap-3 mb-8 text-sm">
           <div className="bg-slate-800 rounded p-4 border border-slate-700 text-center">
-            <div className="text-slate-400 mb-1">Correct</div>
-            <div className="text-xl font-bold text-green-400">
-              {correctCharacters}
+            <div className="text-slate-400 mb-1">Raw</div>
+            <div className="text-xl font-bold text-accent">
+              {rawWpm.toFixed(2)}
             </div>
           </div>
 
-          <div className="bg-slate-800 rounded p-4 border border-slate-700 text-center">
-            <div className="text-slate-400 mb-1">Errors</div>
-            <div className="text-xl font-bold text-red-400">{errors}</div>
-          </div>
+          {CHARACTER_STATS.map(({ key, label, className }) => (
+            <div
+              key={key}
+              className="bg-slate-800 rounded p-4 border border-slate-700 text-center"
+            >
+              <div className="text-slate-400 mb-1">{label}</div>
+              <div className={`text-xl font-bold ${className}`}>
+                {characters[key]}
+              </div>
+            </div>
+          ))}
         </div>
 
         {/* Metadata */}
@@ -0,0 +1,247 @@
+import { FC, useEffect, useState } from "react";
+import { useThemeStore } from "../context/themeStore";
+import {
+  CustomTheme,
+  DEFAULT_THEME_COLORS,
+  decodeThemeCode,
+  encodeThemeCode,
+  isHexColor,
+  THEME_COLOR_KEYS,
+  ThemeColors,
+} from "../utils/theme";
+import apiService from "../services/api";
+import TypingDisplay from "./TypingDisplay";
+
+/**
+ * ThemeEditor Component
+ * Edits, previews, shares and imports a custom color theme
+ */
+
+interface SharedTheme extends CustomTheme {
+  username: string;
+  code: string; // shareable theme code
+}
+
+const PREVIEW_TEXT = "the quick brown fox jumps over the lazy dog";
+const PREVIEW_TYPED = "the quick brpwn foxx ju";
+
+const ThemeEditor: FC = () => {
+  const { customTheme, setCustomTheme, setTheme } = useThemeStore();
+  const [name, setName] = useState(customTheme?.name ?? "My theme");
+  const [shared, setShared] = useState(customTheme?.shared ?? false);
+  // Raw input per color, so invalid values can be shown while typing
+  const [inputs, setInputs] = useState<ThemeColors>(
+    customTheme?.colors ?? DEFAULT_THEME_COLORS,
+  );
+  const [importCode, setImportCode] = useState("");
+  const [gallery, setGallery] = useState<SharedTheme[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  // The saved theme may load after the editor mounts
+  useEffect(() => {
+    if (!customTheme) return;
+    setName(customTheme.name);
+    setShared(customTheme.shared);
+    setInputs(customTheme.colors);
+  }, [customTheme]);
+
+  useEffect(() => {
+    apiService
+      .getThemeGallery()
+      .then((data) => setGallery(data.themes))
+      .catch(() => setGallery([]));
+  }, []);
+
+  const invalidKeys = THEME_COLOR_KEYS.filter(
+    (key) => !isHexColor(inputs[key]),
+  );
+  const isValid = invalidKeys.length === 0 && name.trim().length > 0;
+  // Preview with the last valid value of each color
+  const colors = { ...(customTheme?.colors ?? DEFAULT_THEME_COLORS) };
+  THEME_COLOR_KEYS.forEach((key) => {
+    if (isHexColor(inputs[key])) colors[key] = inputs[key];
+  });
+
+  const loadColors = (next: ThemeColors) => {
+    setInputs(next);
+    setSaved(false);
+  };
+
+  const handleImport = () => {
+    const decoded = decodeThemeCode(importCode);
+    if (!decoded) {
+      setError("Invalid theme code");
+      return;
+    }
+    loadColors(decoded);
+    setImportCode("");
+    setError(null);
+  };
+
+  const handleSave = () => {
+    setCustomTheme({ name: name.trim(), colors, shared });
+    setTheme("custom");
+    setSaved(true);
+  };
+
+  const inputClass = "px-3 py-1 bg-slate-700 rounded text-slate-100";
+  const buttonClass =
+    "py-1 px-3 rounded text-sm transition-colors bg-slate-700 hover:bg-slate-600 text-slate-100";
+
+  return (
+    <div className="bg-slate-800 rounded-lg p-6 border border-slate-700 space-y-6">
+      <h3 className="text-lg font-semibold text-slate-100">Custom theme</h3>
+
+      {error && (
+        <div className="p-3 bg-red-500 bg-opacity-10 border border-red-500 rounded text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div className="space-y-3">
+          <div className="flex justify-between items-center gap-2">
+            <span className="text-slate-400">Name</span>
+            <input
+              value={name}
+              maxLength={32}
+              onChange={(e) => {
+                setName(e.target.value);
+                setSaved(false);
+              }}
+              className={inputClass}
+            />
+          </div>
+
+          {THEME_COLOR_KEYS.map((key) => (
+            <div key={key} className="flex justify-between items-center gap-2">
+              <span className="text-slate-400 capitalize">{key}</span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={colors[key]}
+                  onChange={(e) =>
+                    loadColors({ ...inputs, [key]: e.target.value })
+                  }
+                />
+                <input
+                  value={inputs[key]}
+                  onChange={(e) =>
+                    loadColors({ ...inputs, [key]: e.target.value })
+                  }
+                  className={`${inputClass} w-28 ${
+                    invalidKeys.includes(key) ? "border border-red-500" : ""
+                  }`}
+                />
+              </div>
+            </div>
+          ))}
+          {invalidKeys.length > 0 && (
+            <p className="text-red-400 text-sm">
+              Colors must be #rrggbb hex values
+            </p>
+          )}
+
+          <label className="flex items-center gap-2 text-slate-400">
+            <input
+              type="checkbox"
+              checked={shared}
+              onChange={(e) => {
+                setShared(e.target.checked);
+                setSaved(false);
+              }}
+            />
+            Share in the community gallery
+          </label>
+
+          <button
+            onClick={handleSave}
+            disabled={!isValid}
+            className="py-2 px-4 rounded bg-primary text-black font-semibold disabled:opacity-50"
+          >
+            {saved ? "Saved" : "Save and use"}
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          {/* Live preview */}
+          <p className="text-3xl font-bold" style={{ color: colors.accent }}>
+            72 wpm
+          </p>
+          <TypingDisplay
+            originalText={PREVIEW_TEXT}
+            typedText={PREVIEW_TYPED}
+            colors={colors}
+          />
+
+          <div className="flex items-center gap-2">
+            <span className="text-slate-400">Code</span>
+            <input
+              readOnly
+              value={encodeThemeCode(colors)}
+              className={`${inputClass} flex-1`}
+            />
+            <button
+              onClick={() =>
+                navigator.clipboard?.writeText(encodeThemeCode(colors))
+              }
+              className={buttonClass}
+            >
+              Copy
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-slate-400">Import</span>
+            <input
+              value={importCode}
+              onChange={(e) => setImportCode(e.target.value)}
+              placeholder="Paste a theme code"
+              className={`${inputClass} flex-1`}
+            />
+            <button onClick={handleImport} className={buttonClass}>
+              Load
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Community gallery */}
+      {gallery.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-slate-100 mb-3">Gallery</h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {gallery.map((theme) => (
+              <button
+                key={`${theme.username}-${theme.name}`}
+                onClick={() => {
+                  loadColors(theme.colors);
+                  setName(theme.name);
+                }}
+                title={theme.code}
+                className="p-3 rounded border border-slate-700 text-left hover:border-primary"
+                style={{ backgroundColor: theme.colors.background }}
+              >
+                <p style={{ color: theme.colors.text }}>{theme.name}</p>
+                <p className="text-xs" style={{ color: theme.colors.accent }}>
+                  by {theme.username}
+                </p>
+                <div className="flex gap-1 mt-2">
+                  {THEME_COLOR_KEYS.map((key) => (
+                    <span
+                      key={key}
+                      className="w-4 h-4 rounded-full"
+                      style={{ backgroundColor: theme.colors[key] }}
+                    />
+                  ))}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThemeEditor;
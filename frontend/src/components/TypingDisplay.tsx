@@ -1,52 +1,104 @@
-import { FC, memo } from "react";
+import { CSSProperties, FC, memo } from "react";
+import { useThemeStore } from "../context/themeStore";
+import { DEFAULT_THEME_COLORS, ThemeColors } from "../utils/theme";
+import { CharState, classifyWords } from "../utils/typing";
 
 /**
  * TypingDisplay Component
- * Displays the text to type with character highlighting
+ * Displays the text to type with word-aligned character highlighting
  */
 
 interface TypingDisplayProps {
   originalText: string;
   typedText: string;
+  colors?: ThemeColors; // overrides the active theme, e.g. for a preview
+}
+
+const CHAR_CLASSES: Record<CharState, string> = {
+  correct: "correct text-green-400",
+  incorrect: "incorrect text-red-400 bg-red-400 bg-opacity-20",
+  extra: "extra text-red-500 bg-red-500 bg-opacity-20",
+  missed: "missed text-slate-500 underline decoration-red-400",
+  pending: "text-slate-300",
+};
+
+const CURRENT_CLASS = "current bg-blue-500 bg-opacity-40 cursor";
+
+/**
+ * Inline styles for custom theme colors (hex alpha suffixes for tints)
+ */
+function customStyles(colors: ThemeColors) {
+  const chars: Record<CharState, CSSProperties> = {
+    correct: { color: colors.correct },
+    incorrect: { color: colors.error, backgroundColor: `${colors.error}33` },
+    extra: { color: colors.error, backgroundColor: `${colors.error}33` },
+    missed: { color: `${colors.text}99`, textDecorationColor: colors.error },
+    pending: { color: colors.text },
+  };
+
+  return {
+    container: { backgroundColor: colors.background, color: colors.text },
+    chars,
+    current: { backgroundColor: `${colors.caret}66` },
+  };
 }
 
 const TypingDisplay: FC<TypingDisplayProps> = memo(
-  ({ originalText, typedText }) => {
+  ({ originalText, typedText, colors }) => {
+    const { theme, customTheme } = useThemeStore();
+    const words = classifyWords(originalText, typedText);
+    const currentWord = typedText.split(" ").length - 1;
+
+    const activeColors =
+      colors ??
+      (theme === "custom"
+        ? (customTheme?.colors ?? DEFAULT_THEME_COLORS)
+        : undefined);
+    const styles = activeColors ? customStyles(activeColors) : null;
+
     return (
-      <div className="mb-8 p-8 bg-slate-800 rounded-lg border border-slate-700 font-mono text-lg leading-relaxed">
-        {originalText.split("").map((char, idx) => {
-          const typedChar = typedText[idx];
-          let charClass = "text-slate-300";
-
-          if (typedChar === undefined) {
-            // Not typed yet
-            if (idx === typedText.length) {
-              charClass = "current bg-blue-500 bg-opacity-40 cursor";
-            }
-          } else if (char === typedChar) {
-            charClass = "correct text-green-400";
-          } else {
-            charClass = "incorrect text-red-400 bg-red-400 bg-opacity-20";
-          }
+      <div
+        className="mb-8 p-8 bg-slate-800 rounded-lg border border-slate-700 font-mono text-lg leading-relaxed"
+        style={styles?.container}
+      >
+        {words.map((word, wordIdx) => {
+          // Caret sits after the typed part of the current word
+          const caretIdx = wordIdx === currentWord ? word.typed.length : -1;
 
           return (
-            <span key={idx} className={`character ${charClass}`}>
-              {char}
+            <span key={wordIdx} className="word">
+              {word.chars.map((c, charIdx) => (
+                <span
+                  key={charIdx}
+                  className={`character ${
+                    charIdx === caretIdx ? CURRENT_CLASS : CHAR_CLASSES[c.state]
+                  }`}
+                  style={
+                    charIdx === caretIdx
+                      ? styles?.current
+                      : styles?.chars[c.state]
+                  }
+                >
+                  {c.char}
+                </span>
+              ))}
+
+              {/* Word separator */}
+              {wordIdx < words.length - 1 && (
+                <span
+                  className={`character ${
+                    caretIdx >= word.chars.length ? CURRENT_CLASS : ""
+                  }`}
+                  style={
+                    caretIdx >= word.chars.length ? styles?.current : undefined
+                  }
+                >
+                  {" "}
+                </span>
+              )}
             </span>
           );
         })}
-
-        {/* Extra characters typed */}
-        {typedText.length > originalText.length && (
-          <span className="extra text-red-500 bg-red-500 bg-opacity-20">
-            {typedText
-              .slice(originalText.length)
-              .split("")
-              .map((char, idx) => (
-                <span key={idx}>{char}</span>
-              ))}
-          </span>
-        )}
       </div>
     );
   },
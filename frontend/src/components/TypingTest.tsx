@@ -23,8 +23,15 @@ const TypingTest: FC<TypingTestProps> = ({
   onComplete,
 }) => {
   const inputRef = useRef<HTMLInputElement>(null);
-  const { originalText, typedText, startTest, updateTypedText, finishTest } =
-    useTestStore();
+  const completedRef = useRef(false);
+  const {
+    originalText,
+    typedText,
+    startTest,
+    updateTypedText,
+    recordKeyRelease,
+    finishTest,
+  } = useTestStore();
   const {
     timeLeft,
     isRunning,
@@ -43,18 +50,35 @@ const TypingTest: FC<TypingTestProps> = ({
     startTimer();
   }, []);
 
+  // Each change is recorded as a keystroke or an edit, so the input
+  // history replays to exactly the submitted text
   const handleInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (!isRunning) return;
     updateTypedText(e.target.value);
   };
 
+  // Key hold times feed server-side bot detection
+  const handleKeyUp = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key.length === 1 || e.key === "Backspace") {
+      recordKeyRelease(e.key);
+    }
+  };
+
   const handleComplete = () => {
+    // The countdown can fire its callback more than once
+    if (completedRef.current) return;
+    completedRef.current = true;
+
     stopTimer();
     finishTest();
+
+    // Read the store directly so the final keystrokes are included
+    const { typedText: finalText, inputHistory } = useTestStore.getState();
     onComplete({
       wpm,
       accuracy,
-      typedText,
+      typedText: finalText,
+      inputHistory,
       originalText: text,
       duration,
       difficulty,
@@ -77,6 +101,7 @@ const TypingTest: FC<TypingTestProps> = ({
         type="text"
         value={typedText}
         onChange={handleInput}
+        onKeyUp={handleKeyUp}
         className="w-full p-4 bg-slate-800 border-2 border-slate-700 focus:border-primary rounded-lg outline-none text-slate-100 placeholder-slate-500"
         placeholder="Start typing..."
         spellCheck="false"
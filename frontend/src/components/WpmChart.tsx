@@ -0,0 +1,121 @@
+import { FC, memo } from "react";
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  TooltipProps,
+  XAxis,
+  YAxis,
+} from "recharts";
+import colors from "tailwindcss/colors";
+import themeColors from "../styles/themeColors.json";
+
+/**
+ * WpmChart Component
+ * Plots WPM and raw WPM per second with error markers
+ */
+
+export interface WpmSeriesPoint {
+  second: number;
+  wpm: number;
+  rawWpm: number;
+  errors: number;
+}
+
+interface WpmChartProps {
+  series: WpmSeriesPoint[];
+}
+
+const ChartTooltip: FC<TooltipProps<number, string>> = ({
+  active,
+  payload,
+}) => {
+  if (!active || !payload || payload.length === 0) return null;
+  const point = payload[0].payload as WpmSeriesPoint;
+
+  return (
+    <div className="bg-slate-900 border border-slate-700 rounded p-3 text-sm">
+      <div className="text-slate-400 mb-1">{point.second}s</div>
+      <div className="text-primary">{point.wpm} wpm</div>
+      <div className="text-slate-300">{point.rawWpm} raw</div>
+      {point.errors > 0 && (
+        <div className="text-red-400">
+          {point.errors} {point.errors === 1 ? "error" : "errors"}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const WpmChart: FC<WpmChartProps> = memo(({ series }) => {
+  // Only seconds with errors get a marker
+  const data = series.map((point) => ({
+    ...point,
+    errorMarker: point.errors > 0 ? point.errors : null,
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height={240}>
+      <ComposedChart
+        data={data}
+        margin={{ top: 10, right: 10, bottom: 0, left: -10 }}
+      >
+        <CartesianGrid stroke={colors.slate[700]} strokeDasharray="3 3" />
+        <XAxis
+          dataKey="second"
+          stroke={colors.slate[400]}
+          tick={{ fontSize: 12 }}
+        />
+        <YAxis
+          yAxisId="wpm"
+          stroke={colors.slate[400]}
+          tick={{ fontSize: 12 }}
+          allowDecimals={false}
+        />
+        <YAxis
+          yAxisId="errors"
+          orientation="right"
+          stroke={colors.red[400]}
+          tick={{ fontSize: 12 }}
+          allowDecimals={false}
+        />
+        <Tooltip
+          content={<ChartTooltip />}
+          cursor={{ stroke: colors.slate[500] }}
+        />
+        <Line
+          yAxisId="wpm"
+          type="monotone"
+          dataKey="rawWpm"
+          stroke={themeColors.accent}
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        <Line
+          yAxisId="wpm"
+          type="monotone"
+          dataKey="wpm"
+          stroke={themeColors.primary}
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        <Scatter
+          yAxisId="errors"
+          dataKey="errorMarker"
+          fill={colors.red[400]}
+          shape="cross"
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+});
+
+WpmChart.displayName = "WpmChart";
+
+export default WpmChart;
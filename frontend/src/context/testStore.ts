@@ -1,4 +1,33 @@
 import { create } from "zustand";
+import { diffText, TextEdit } from "../utils/typing";
+
+/**
+ * Raw keystroke as submitted with a test
+ */
+export interface InputEvent {
+  timestamp: number; // epoch milliseconds
+  char: string; // typed character, "Backspace" or "Edit"
+  dwell?: number; // milliseconds the key was held
+  edit?: TextEdit; // with char "Edit"
+}
+
+/**
+ * Describe an input change so the history replays to the exact input
+ * Single characters at the end and Backspace are keystrokes; anything
+ * else (word deletes, mid-text edits, auto-correct, IME) is an Edit
+ */
+function describeInput(
+  previous: string,
+  next: string,
+): Omit<InputEvent, "timestamp"> {
+  if (next.length === previous.length + 1 && next.startsWith(previous)) {
+    return { char: next[next.length - 1] };
+  }
+  if (next.length === previous.length - 1 && previous.startsWith(next)) {
+    return { char: "Backspace" };
+  }
+  return { char: "Edit", edit: diffText(previous, next) };
+}
 
 /**
  * Typing Test Store (Zustand)
@@ -19,6 +48,7 @@ export interface TestState {
   currentCharIndex: number;
   errors: number;
   corrections: number;
+  inputHistory: InputEvent[];
 
   // Stats
   wpm: number;
@@ -32,6 +62,7 @@ export interface TestState {
     difficulty: "easy" | "normal" | "hard",
   ) => void;
   updateTypedText: (text: string) => void;
+  recordKeyRelease: (char: string) => void;
   finishTest: () => void;
   resetTest: () => void;
   setDifficulty: (difficulty: "easy" | "normal" | "hard") => void;
@@ -50,6 +81,7 @@ export const useTestStore = create<TestState>((set) => ({
   currentCharIndex: 0,
   errors: 0,
   corrections: 0,
+  inputHistory: [],
 
   wpm: 0,
   accuracy: 100,
@@ -65,16 +97,48 @@ export const useTestStore = create<TestState>((set) => ({
       currentCharIndex: 0,
       errors: 0,
       corrections: 0,
+      inputHistory: [],
       wpm: 0,
       accuracy: 100,
       difficulty,
     }),
 
+  // Every change to the input is recorded in the input history
   updateTypedText: (text) =>
-    set((state) => ({
-      typedText: text,
-      currentCharIndex: text.length,
-    })),
+    set((state) =>
+      text === state.typedText
+        ? state
+        : {
+            typedText: text,
+            currentCharIndex: text.length,
+            inputHistory: [
+              ...state.inputHistory,
+              {
+                timestamp: Date.now(),
+                ...describeInput(state.typedText, text),
+              },
+            ],
+          },
+    ),
+
+  // Closes the most recent press of the same key
+  recordKeyRelease: (char) =>
+    set((state) => {
+      let index = state.inputHistory.length - 1;
+      while (
+        index >= 0 &&
+        (state.inputHistory[index].char !== char ||
+          state.inputHistory[index].dwell !== undefined)
+      ) {
+        index--;
+      }
+      if (index === -1) return state;
+
+      const inputHistory = [...state.inputHistory];
+      const event = inputHistory[index];
+      inputHistory[index] = { ...event, dwell: Date.now() - event.timestamp };
+      return { inputHistory };
+    }),
 
   finishTest: () =>
     set({
@@ -90,6 +154,7 @@ export const useTestStore = create<TestState>((set) => ({
       currentCharIndex: 0,
       errors: 0,
       corrections: 0,
+      inputHistory: [],
       wpm: 0,
       accuracy: 100,
       consistency: 0,
@@ -1,4 +1,5 @@
 import { create } from "zustand";
+import { CustomTheme } from "../utils/theme";
 
 /**
  * Theme Store (Zustand)
@@ -8,31 +9,97 @@ import { create } from "zustand";
 export type Theme = "dark" | "light" | "custom";
 export type CaretStyle = "line" | "block" | "underline";
 
+/**
+ * Preferences as stored on the server
+ */
+export interface Preferences {
+  theme: Theme;
+  custom_theme_config: CustomTheme | null;
+  enable_sounds: boolean;
+  enable_animations: boolean;
+  caret_style: CaretStyle;
+  font_size: number;
+  default_test_duration: number;
+  default_difficulty: string;
+  profile_public: boolean;
+  show_on_leaderboard: boolean;
+  timezone: string;
+}
+
 export interface ThemeState {
   theme: Theme;
+  customTheme: CustomTheme | null;
   soundsEnabled: boolean;
   animationsEnabled: boolean;
   caretStyle: CaretStyle;
   fontSize: number;
+  defaultDuration: number;
+  defaultDifficulty: string;
 
   setTheme: (theme: Theme) => void;
+  setCustomTheme: (customTheme: CustomTheme) => void;
   toggleSounds: () => void;
   toggleAnimations: () => void;
   setCaretStyle: (style: CaretStyle) => void;
   setFontSize: (size: number) => void;
+  setDefaultDuration: (duration: number) => void;
+  setDefaultDifficulty: (difficulty: string) => void;
+  hydrate: (preferences: Preferences) => void;
+}
+
+/**
+ * Server preference fields that differ between two store states
+ */
+export function changedPreferences(
+  previous: ThemeState,
+  next: ThemeState,
+): Partial<Preferences> {
+  const changes: Partial<Preferences> = {};
+  if (next.theme !== previous.theme) changes.theme = next.theme;
+  if (next.customTheme && next.customTheme !== previous.customTheme)
+    changes.custom_theme_config = next.customTheme;
+  if (next.soundsEnabled !== previous.soundsEnabled)
+    changes.enable_sounds = next.soundsEnabled;
+  if (next.animationsEnabled !== previous.animationsEnabled)
+    changes.enable_animations = next.animationsEnabled;
+  if (next.caretStyle !== previous.caretStyle)
+    changes.caret_style = next.caretStyle;
+  if (next.fontSize !== previous.fontSize) changes.font_size = next.fontSize;
+  if (next.defaultDuration !== previous.defaultDuration)
+    changes.default_test_duration = next.defaultDuration;
+  if (next.defaultDifficulty !== previous.defaultDifficulty)
+    changes.default_difficulty = next.defaultDifficulty;
+  return changes;
 }
 
 export const useThemeStore = create<ThemeState>((set) => ({
   theme: "dark",
+  customTheme: null,
   soundsEnabled: true,
   animationsEnabled: true,
   caretStyle: "line",
   fontSize: 16,
+  defaultDuration: 60,
+  defaultDifficulty: "normal",
 
   setTheme: (theme) => set({ theme }),
+  setCustomTheme: (customTheme) => set({ customTheme }),
   toggleSounds: () => set((state) => ({ soundsEnabled: !state.soundsEnabled })),
   toggleAnimations: () =>
     set((state) => ({ animationsEnabled: !state.animationsEnabled })),
   setCaretStyle: (caretStyle) => set({ caretStyle }),
   setFontSize: (fontSize) => set({ fontSize }),
+  setDefaultDuration: (defaultDuration) => set({ defaultDuration }),
+  setDefaultDifficulty: (defaultDifficulty) => set({ defaultDifficulty }),
+  hydrate: (preferences) =>
+    set({
+      theme: preferences.theme,
+      customTheme: preferences.custom_theme_config,
+      soundsEnabled: preferences.enable_sounds,
+      animationsEnabled: preferences.enable_animations,
+      caretStyle: preferences.caret_style,
+      fontSize: preferences.font_size,
+      defaultDuration: preferences.default_test_duration,
+      defaultDifficulty: preferences.default_difficulty,
+    }),
 }));
@@ -1,6 +1,7 @@
 import { useEffect, useState, useCallback } from "react";
 import { io, Socket } from "socket.io-client";
 import { useAuthStore } from "../context/authStore";
+import apiService from "../services/api";
 
 /**
  * Custom Hook: useMultiplayer
@@ -31,23 +32,40 @@ export function useMultiplayer() {
   useEffect(() => {
     if (!user) return;
 
-    const token = localStorage.getItem("accessToken");
+    // Read the token on every (re)connect so refreshed tokens are used
     const newSocket = io("http://localhost:5000", {
-      auth: { token },
+      auth: (cb) => cb({ token: localStorage.getItem("accessToken") }),
       transports: ["websocket", "polling"],
     });
+    let retriedAuth = false;
 
     newSocket.on("connect", () => {
+      retriedAuth = false;
       console.log("Connected to multiplayer");
     });
 
+    // An expired access token fails the handshake; refresh once and retry
     newSocket.on("connect_error", (err) => {
-      setError(err.message);
+      if (err.message !== "Invalid token" || retriedAuth) {
+        setError(err.message);
+        return;
+      }
+
+      retriedAuth = true;
+      apiService.refreshAccessToken().catch(() => setError(err.message));
+    });
+
+    // Reconnect with the new token if the connection was lost meanwhile
+    const unsubscribe = apiService.onTokenRefresh(() => {
+      if (!newSocket.connected) {
+        newSocket.connect();
+      }
     });
 
     setSocket(newSocket);
 
     return () => {
+      unsubscribe();
       newSocket.disconnect();
     };
   }, [user]);
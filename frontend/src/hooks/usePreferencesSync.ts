@@ -0,0 +1,76 @@
+import { useEffect } from "react";
+import { useAuthStore } from "../context/authStore";
+import {
+  changedPreferences,
+  Preferences,
+  useThemeStore,
+} from "../context/themeStore";
+import apiService from "../services/api";
+
+/**
+ * Custom Hook: usePreferencesSync
+ * Loads the signed-in user's preferences into the theme store and saves
+ * later changes back to the server
+ */
+
+// Coalesce quick successive changes (e.g. dragging a slider) into one request
+const SAVE_DELAY_MS = 500;
+
+export function usePreferencesSync() {
+  const userId = useAuthStore((state) => state.user?.id);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    // Changes are saved only once the server copy loaded; until then they
+    // queue up and are applied on top of it
+    let active = true;
+    let loaded = false;
+    let hydrating = false;
+    let pending: Partial<Preferences> = {};
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const save = () => {
+      const changes = pending;
+      pending = {};
+      apiService
+        .updatePreferences(changes)
+        .catch((err) => console.error("Failed to save preferences:", err));
+    };
+
+    const scheduleSave = () => {
+      clearTimeout(timer);
+      timer = setTimeout(save, SAVE_DELAY_MS);
+    };
+
+    const unsubscribe = useThemeStore.subscribe((state, previous) => {
+      if (hydrating) return;
+
+      const changes = changedPreferences(previous, state);
+      if (Object.keys(changes).length === 0) return;
+
+      pending = { ...pending, ...changes };
+      if (loaded) scheduleSave();
+    });
+
+    apiService
+      .getPreferences()
+      .then((preferences: Preferences) => {
+        if (!active) return;
+        hydrating = true;
+        useThemeStore.getState().hydrate({ ...preferences, ...pending });
+        hydrating = false;
+        loaded = true;
+        if (Object.keys(pending).length > 0) scheduleSave();
+      })
+      // Without the server copy, saving would overwrite it with defaults
+      .catch((err) => console.error("Failed to load preferences:", err));
+
+    return () => {
+      active = false;
+      unsubscribe();
+      clearTimeout(timer);
+      if (loaded && Object.keys(pending).length > 0) save();
+    };
+  }, [userId]);
+}
@@ -35,8 +35,9 @@ export function useTypingTest() {
     const newWpm = calculateWPM(chars.correct, elapsedTime);
     setWpm(newWpm);
 
-    // Calculate Accuracy
-    const newAccuracy = calculateAccuracy(chars.correct, originalText.length);
+    // Calculate Accuracy over the characters reached so far
+    const scored = chars.correct + chars.incorrect + chars.extra + chars.missed;
+    const newAccuracy = calculateAccuracy(chars.correct, scored);
     setAccuracy(newAccuracy);
   }, [typedText, timeRemaining, originalText, isTestActive]);
 
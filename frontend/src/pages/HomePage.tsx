@@ -1,6 +1,7 @@
-import { FC, useState } from "react";
+import { FC, useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuthStore } from "../context/authStore";
+import { useThemeStore } from "../context/themeStore";
 import apiService from "../services/api";
 
 /**
@@ -10,12 +11,63 @@ import apiService from "../services/api";
 
 const HomePage: FC = () => {
   const navigate = useNavigate();
-  const { user } = useAuthStore();
-  const [duration, setDuration] = useState(60);
-  const [difficulty, setDifficulty] = useState("normal");
+  const { user, logout } = useAuthStore();
+  const { defaultDuration, defaultDifficulty } = useThemeStore();
+  const [duration, setDuration] = useState(defaultDuration);
+  const [difficulty, setDifficulty] = useState(defaultDifficulty);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const startTest = () => {
-    navigate("/test", { state: { duration, difficulty } });
+  // Saved defaults may arrive after the first render
+  useEffect(() => setDuration(defaultDuration), [defaultDuration]);
+  useEffect(() => setDifficulty(defaultDifficulty), [defaultDifficulty]);
+
+  // Revoke the refresh token; sign out locally even if that fails
+  const handleLogout = async () => {
+    try {
+      await apiService.logout();
+    } catch (err) {
+      console.error("Failed to revoke session:", err);
+    }
+    logout();
+    navigate("/login");
+  };
+
+  const startTest = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = {
+        mode: "time",
+        language: "english",
+        difficulty,
+        testType: "normal",
+        length: duration,
+      };
+
+      // Signed-in users get a session so the result can be submitted
+      if (user) {
+        const session = await apiService.createTestSession(params);
+        navigate("/test", {
+          state: {
+            duration,
+            difficulty,
+            text: session.text,
+            sessionId: session.sessionId,
+          },
+        });
+      } else {
+        const generated = await apiService.generateTest(params);
+        navigate("/test", {
+          state: { duration, difficulty, text: generated.text },
+        });
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.error || "Failed to generate test");
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -25,6 +77,12 @@ const HomePage: FC = () => {
         <div className="max-w-6xl mx-auto px-4 py-6 flex justify-between items-center">
           <h1 className="text-3xl font-bold text-primary">TypingTest</h1>
           <nav className="space-x-4">
+            <button
+              onClick={() => navigate("/leaderboard")}
+              className="px-4 py-2 hover:text-primary transition-colors"
+            >
+              Leaderboard
+            </button>
             {user ? (
               <>
                 <span className="text-slate-300">{user.username}</span>
@@ -40,6 +98,18 @@ const HomePage: FC = () => {
                 >
                   Stats
                 </button>
+                <button
+                  onClick={() => navigate("/settings")}
+                  className="px-4 py-2 hover:text-primary transition-colors"
+                >
+                  Settings
+                </button>
+                <button
+                  onClick={handleLogout}
+                  className="px-4 py-2 hover:text-primary transition-colors"
+                >
+                  Log out
+                </button>
               </>
             ) : (
               <>
@@ -136,11 +206,17 @@ const HomePage: FC = () => {
 
         {/* Start Button */}
         <div className="text-center">
+          {error && (
+            <div className="mb-4 p-3 bg-red-500 bg-opacity-10 border border-red-500 rounded text-red-400 text-sm">
+              {error}
+            </div>
+          )}
           <button
             onClick={startTest}
-            className="text-xl font-bold py-4 px-12 bg-primary hover:bg-yellow-500 text-black rounded-lg transition-colors"
+            disabled={isLoading}
+            className="text-xl font-bold py-4 px-12 bg-primary hover:bg-yellow-500 text-black rounded-lg transition-colors disabled:opacity-50"
           >
-            Start Test
+            {isLoading ? "Generating..." : "Start Test"}
           </button>
         </div>
       </main>
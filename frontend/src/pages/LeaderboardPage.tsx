@@ -0,0 +1,187 @@
+import { FC, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuthStore } from "../context/authStore";
+import apiService from "../services/api";
+
+/**
+ * LeaderboardPage
+ * One board per test duration and period
+ */
+
+interface LeaderboardRow {
+  rank: number;
+  user_id: string;
+  username: string;
+  wpm: number;
+  accuracy: number;
+  tests_completed: number;
+}
+
+interface Standing {
+  rank: number;
+  total: number;
+  percentile: number;
+}
+
+const PERIODS: Array<{ label: string; value: string }> = [
+  { label: "Daily", value: "daily" },
+  { label: "Weekly", value: "weekly" },
+  { label: "Monthly", value: "monthly" },
+  { label: "All time", value: "all_time" },
+];
+
+// Matches the duration options on HomePage
+const DURATIONS = [15, 30, 60, 120];
+
+const LeaderboardPage: FC = () => {
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [period, setPeriod] = useState("all_time");
+  const [duration, setDuration] = useState(60);
+  const [aroundMe, setAroundMe] = useState(false);
+  const [rows, setRows] = useState<LeaderboardRow[]>([]);
+  const [standing, setStanding] = useState<Standing | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const board = {
+      period,
+      mode: "time",
+      length: duration,
+      language: "english",
+    };
+
+    const request = aroundMe
+      ? apiService.getLeaderboardAroundMe(board)
+      : apiService.getLeaderboard(board);
+
+    request
+      .then((data) => {
+        setRows(data.leaderboard);
+        setStanding(aroundMe ? data : null);
+        setError(null);
+      })
+      .catch((err: any) => {
+        setRows([]);
+        setStanding(null);
+        setError(
+          err.response?.status === 404
+            ? "You are not ranked on this board yet"
+            : err.response?.data?.error || "Failed to load leaderboard",
+        );
+      });
+  }, [period, duration, aroundMe]);
+
+  const toggleClass = (active: boolean) =>
+    `py-1 px-3 rounded text-sm transition-colors ${
+      active
+        ? "bg-primary text-black font-semibold"
+        : "bg-slate-700 hover:bg-slate-600 text-slate-100"
+    }`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800">
+      <main className="max-w-6xl mx-auto px-4 py-20">
+        <div className="flex justify-between items-center mb-8">
+          <h2 className="text-3xl font-bold text-slate-100">Leaderboard</h2>
+          <button
+            onClick={() => navigate("/")}
+            className="px-4 py-2 hover:text-primary transition-colors"
+          >
+            Back
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500 bg-opacity-10 border border-red-500 rounded text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+          <div className="flex justify-between items-center mb-6">
+            <div className="flex gap-2">
+              {DURATIONS.map((dur) => (
+                <button
+                  key={dur}
+                  onClick={() => setDuration(dur)}
+                  className={toggleClass(duration === dur)}
+                >
+                  time {dur}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              {user && (
+                <button
+                  onClick={() => setAroundMe(!aroundMe)}
+                  className={toggleClass(aroundMe)}
+                >
+                  Around me
+                </button>
+              )}
+              {PERIODS.map((p) => (
+                <button
+                  key={p.value}
+                  onClick={() => setPeriod(p.value)}
+                  className={toggleClass(period === p.value)}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {standing && (
+            <p className="text-slate-400 mb-4">
+              Rank {standing.rank} of {standing.total} ({standing.percentile}{" "}
+              percentile)
+            </p>
+          )}
+
+          {rows.length === 0 ? (
+            <p className="text-slate-400">No results on this board yet.</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-slate-400 text-sm">
+                <tr>
+                  <th className="py-2 w-16">#</th>
+                  <th className="py-2">User</th>
+                  <th className="py-2 text-right">WPM</th>
+                  <th className="py-2 text-right">Accuracy</th>
+                  <th className="py-2 text-right">Tests</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr
+                    key={row.user_id}
+                    className={`border-t border-slate-700 ${
+                      row.user_id === user?.id
+                        ? "text-primary"
+                        : "text-slate-100"
+                    }`}
+                  >
+                    <td className="py-2 text-slate-400">{row.rank}</td>
+                    <td className="py-2">{row.username}</td>
+                    <td className="py-2 text-right font-bold text-primary">
+                      {Number(row.wpm).toFixed(2)}
+                    </td>
+                    <td className="py-2 text-right">
+                      {Number(row.accuracy).toFixed(2)}%
+                    </td>
+                    <td className="py-2 text-right text-slate-400">
+                      {row.tests_completed}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default LeaderboardPage;
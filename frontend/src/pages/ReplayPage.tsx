@@ -0,0 +1,72 @@
+import { FC, useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import ReplayPlayer from "../components/ReplayPlayer";
+import { KeystrokeEvent } from "../utils/typing";
+import apiService from "../services/api";
+
+/**
+ * ReplayPage
+ * Plays back a recorded test
+ */
+
+interface ReplayData {
+  testId: string;
+  originalText: string | null;
+  duration: number;
+  totalTime: number;
+  events: KeystrokeEvent[];
+}
+
+const ReplayPage: FC = () => {
+  const navigate = useNavigate();
+  const { testId } = useParams<{ testId: string }>();
+  const [replay, setReplay] = useState<ReplayData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!testId) return;
+
+    apiService
+      .getTestReplay(testId)
+      .then(setReplay)
+      .catch((err: any) =>
+        setError(err.response?.data?.error || "Failed to load replay"),
+      );
+  }, [testId]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800">
+      <main className="max-w-6xl mx-auto px-4 py-20">
+        <div className="flex justify-between items-center mb-8">
+          <h2 className="text-3xl font-bold text-slate-100">Replay</h2>
+          <button
+            onClick={() => navigate("/")}
+            className="px-4 py-2 hover:text-primary transition-colors"
+          >
+            Back
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500 bg-opacity-10 border border-red-500 rounded text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {replay &&
+          (replay.originalText && replay.events.length > 0 ? (
+            <ReplayPlayer
+              originalText={replay.originalText}
+              events={replay.events}
+            />
+          ) : (
+            <p className="text-slate-400">
+              No keystrokes were recorded for this test.
+            </p>
+          ))}
+      </main>
+    </div>
+  );
+};
+
+export default ReplayPage;
@@ -0,0 +1,259 @@
+import { FC, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import SessionsPanel from "../components/SessionsPanel";
+import ThemeEditor from "../components/ThemeEditor";
+import { CaretStyle, Theme, useThemeStore } from "../context/themeStore";
+import apiService from "../services/api";
+
+/**
+ * SettingsPage
+ * Appearance, test defaults, privacy and sessions
+ */
+
+interface AccountSettings {
+  profile_public: boolean;
+  show_on_leaderboard: boolean;
+  timezone: string;
+}
+
+const THEMES: Theme[] = ["dark", "light", "custom"];
+const CARET_STYLES: CaretStyle[] = ["line", "block", "underline"];
+// Matches the duration options on HomePage
+const DURATIONS = [15, 30, 60, 120];
+const DIFFICULTIES = ["easy", "normal", "hard"];
+
+const SettingsPage: FC = () => {
+  const navigate = useNavigate();
+  const themeStore = useThemeStore();
+  const [account, setAccount] = useState<AccountSettings | null>(null);
+  const [timezone, setTimezone] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Theme store settings sync on their own; privacy and time zone save here
+  useEffect(() => {
+    apiService
+      .getPreferences()
+      .then((data) => {
+        setAccount(data);
+        setTimezone(data.timezone);
+      })
+      .catch((err: any) =>
+        setError(err.response?.data?.error || "Failed to load settings"),
+      );
+  }, []);
+
+  const saveAccount = async (updates: Partial<AccountSettings>) => {
+    try {
+      const data = await apiService.updatePreferences(updates);
+      setAccount(data);
+      setTimezone(data.timezone);
+      setError(null);
+    } catch (err: any) {
+      setError(
+        err.response?.data?.errors?.[0]?.msg ||
+          err.response?.data?.error ||
+          "Failed to save settings",
+      );
+    }
+  };
+
+  const toggleClass = (active: boolean) =>
+    `py-1 px-3 rounded text-sm transition-colors capitalize ${
+      active
+        ? "bg-primary text-black font-semibold"
+        : "bg-slate-700 hover:bg-slate-600 text-slate-100"
+    }`;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800">
+      <main className="max-w-6xl mx-auto px-4 py-20">
+        <div className="flex justify-between items-center mb-8">
+          <h2 className="text-3xl font-bold text-slate-100">Settings</h2>
+          <button
+            onClick={() => navigate("/")}
+            className="px-4 py-2 hover:text-primary transition-colors"
+          >
+            Back
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500 bg-opacity-10 border border-red-500 rounded text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          {/* Appearance */}
+          <div className="bg-slate-800 rounded-lg p-6 border border-slate-700 space-y-4">
+            <h3 className="text-lg font-semibold text-slate-100">Appearance</h3>
+            <div className="flex justify-between items-center">
+              <span className="text-slate-400">Theme</span>
+              <div className="flex gap-2">
+                {THEMES.map((theme) => (
+                  <button
+                    key={theme}
+                    onClick={() => themeStore.setTheme(theme)}
+                    className={toggleClass(themeStore.theme === theme)}
+                  >
+                    {theme}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-slate-400">Caret</span>
+              <div className="flex gap-2">
+                {CARET_STYLES.map((style) => (
+                  <button
+                    key={style}
+                    onClick={() => themeStore.setCaretStyle(style)}
+                    className={toggleClass(themeStore.caretStyle === style)}
+                  >
+                    {style}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-slate-400">
+                Font size ({themeStore.fontSize}px)
+              </span>
+              <input
+                type="range"
+                min={12}
+                max={32}
+                value={themeStore.fontSize}
+                onChange={(e) => themeStore.setFontSize(Number(e.target.value))}
+              />
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-slate-400">Sounds</span>
+              <button
+                onClick={themeStore.toggleSounds}
+                className={toggleClass(themeStore.soundsEnabled)}
+              >
+                {themeStore.soundsEnabled ? "on" : "off"}
+              </button>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-slate-400">Animations</span>
+              <button
+                onClick={themeStore.toggleAnimations}
+                className={toggleClass(themeStore.animationsEnabled)}
+              >
+                {themeStore.animationsEnabled ? "on" : "off"}
+              </button>
+            </div>
+          </div>
+
+          {/* Test defaults */}
+          <div className="bg-slate-800 rounded-lg p-6 border border-slate-700 space-y-4">
+            <h3 className="text-lg font-semibold text-slate-100">
+              Test defaults
+            </h3>
+            <div className="flex justify-between items-center">
+              <span className="text-slate-400">Duration</span>
+              <div className="flex gap-2">
+                {DURATIONS.map((duration) => (
+                  <button
+                    key={duration}
+                    onClick={() => themeStore.setDefaultDuration(duration)}
+                    className={toggleClass(
+                      themeStore.defaultDuration === duration,
+                    )}
+                  >
+                    {duration}s
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-slate-400">Difficulty</span>
+              <div className="flex gap-2">
+                {DIFFICULTIES.map((difficulty) => (
+                  <button
+                    key={difficulty}
+                    onClick={() => themeStore.setDefaultDifficulty(difficulty)}
+                    className={toggleClass(
+                      themeStore.defaultDifficulty === difficulty,
+                    )}
+                  >
+                    {difficulty}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Privacy and time zone */}
+          {account && (
+            <div className="bg-slate-800 rounded-lg p-6 border border-slate-700 space-y-4">
+              <h3 className="text-lg font-semibold text-slate-100">Privacy</h3>
+              <div className="flex justify-between items-center">
+                <span className="text-slate-400">Public profile</span>
+                <button
+                  onClick={() =>
+                    saveAccount({ profile_public: !account.profile_public })
+                  }
+                  className={toggleClass(account.profile_public)}
+                >
+                  {account.profile_public ? "on" : "off"}
+                </button>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-slate-400">Show on leaderboards</span>
+                <button
+                  onClick={() =>
+                    saveAccount({
+                      show_on_leaderboard: !account.show_on_leaderboard,
+                    })
+                  }
+                  className={toggleClass(account.show_on_leaderboard)}
+                >
+                  {account.show_on_leaderboard ? "on" : "off"}
+                </button>
+              </div>
+              <div className="flex justify-between items-center gap-2">
+                <span className="text-slate-400">Time zone</span>
+                <input
+                  value={timezone}
+                  onChange={(e) => setTimezone(e.target.value)}
+                  placeholder="Europe/Berlin"
+                  className="flex-1 px-3 py-1 bg-slate-700 rounded text-slate-100"
+                />
+                <button
+                  onClick={() =>
+                    setTimezone(
+                      Intl.DateTimeFormat().resolvedOptions().timeZone,
+                    )
+                  }
+                  className={toggleClass(false)}
+                >
+                  Detect
+                </button>
+                <button
+                  onClick={() => saveAccount({ timezone })}
+                  disabled={timezone === account.timezone}
+                  className={`${toggleClass(true)} disabled:opacity-50`}
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-8">
+          <ThemeEditor />
+        </div>
+
+        <div className="mt-8">
+          <SessionsPanel />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SettingsPage;
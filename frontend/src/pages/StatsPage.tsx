@@ -0,0 +1,106 @@
+import { FC, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import KeyboardHeatmap, {
+  HeatmapMetric,
+  KeyAnalytics,
+} from "../components/KeyboardHeatmap";
+import apiService from "../services/api";
+
+/**
+ * StatsPage
+ * Personal typing analytics
+ */
+
+const RANGES: Array<{ label: string; days: number | null }> = [
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "All time", days: null },
+];
+
+const StatsPage: FC = () => {
+  const navigate = useNavigate();
+  const [rangeDays, setRangeDays] = useState<number | null>(30);
+  const [metric, setMetric] = useState<HeatmapMetric>("errors");
+  const [keys, setKeys] = useState<KeyAnalytics[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const from =
+      rangeDays === null
+        ? undefined
+        : new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString();
+
+    apiService
+      .getKeyAnalytics(from)
+      .then((data) => {
+        setKeys(data.keys);
+        setError(null);
+      })
+      .catch((err: any) =>
+        setError(err.response?.data?.error || "Failed to load analytics"),
+      );
+  }, [rangeDays]);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800">
+      <main className="max-w-6xl mx-auto px-4 py-20">
+        <div className="flex justify-between items-center mb-8">
+          <h2 className="text-3xl font-bold text-slate-100">Stats</h2>
+          <button
+            onClick={() => navigate("/")}
+            className="px-4 py-2 hover:text-primary transition-colors"
+          >
+            Back
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-500 bg-opacity-10 border border-red-500 rounded text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Key Heatmap */}
+        <div className="bg-slate-800 rounded-lg p-6 border border-slate-700">
+          <div className="flex justify-between items-center mb-6">
+            <h3 className="text-lg font-semibold text-slate-100">
+              Key Heatmap
+            </h3>
+            <div className="flex gap-2">
+              {RANGES.map((range) => (
+                <button
+                  key={range.label}
+                  onClick={() => setRangeDays(range.days)}
+                  className={`py-1 px-3 rounded text-sm transition-colors ${
+                    rangeDays === range.days
+                      ? "bg-primary text-black font-semibold"
+                      : "bg-slate-700 hover:bg-slate-600 text-slate-100"
+                  }`}
+                >
+                  {range.label}
+                </button>
+              ))}
+              {(["errors", "latency"] as HeatmapMetric[]).map((m) => (
+                <button
+                  key={m}
+                  onClick={() => setMetric(m)}
+                  className={`py-1 px-3 rounded text-sm transition-colors capitalize ${
+                    metric === m
+                      ? "bg-primary text-black font-semibold"
+                      : "bg-slate-700 hover:bg-slate-600 text-slate-100"
+                  }`}
+                >
+                  {m}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <KeyboardHeatmap keys={keys} metric={metric} />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default StatsPage;
@@ -0,0 +1,148 @@
+import { FC, useState } from "react";
+import { Navigate, useLocation, useNavigate } from "react-router-dom";
+import TypingTest from "../components/TypingTest";
+import TestResults, {
+  CharacterBreakdown,
+  PersonalBestOutcome,
+  UnlockedAchievement,
+} from "../components/TestResults";
+import { WpmSeriesPoint } from "../components/WpmChart";
+import { InputEvent } from "../context/testStore";
+import {
+  calculateAccuracy,
+  calculateWPM,
+  classifyCharacters,
+} from "../utils/typing";
+import apiService from "../services/api";
+
+/**
+ * TestPage
+ * Runs a generated test and shows its results
+ */
+
+interface TestLocationState {
+  duration: number;
+  difficulty: string;
+  text: string;
+  sessionId?: string;
+}
+
+interface TestOutcome {
+  wpm: number;
+  rawWpm: number;
+  accuracy: number;
+  consistency: number;
+  characters: CharacterBreakdown;
+  series: WpmSeriesPoint[];
+  personalBest?: PersonalBestOutcome | null;
+  achievements?: UnlockedAchievement[];
+}
+
+/**
+ * Score a guest test locally (no per-second data without a session)
+ */
+function scoreLocally(
+  originalText: string,
+  typedText: string,
+  duration: number,
+): TestOutcome {
+  const characters = classifyCharacters(originalText, typedText);
+  const scored =
+    characters.correct +
+    characters.incorrect +
+    characters.extra +
+    characters.missed;
+
+  return {
+    wpm: calculateWPM(characters.correct, duration),
+    rawWpm: calculateWPM(typedText.length, duration),
+    accuracy: calculateAccuracy(characters.correct, scored),
+    consistency: 0,
+    characters,
+    series: [],
+  };
+}
+
+const TestPage: FC = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const state = location.state as TestLocationState | null;
+  const [outcome, setOutcome] = useState<TestOutcome | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!state?.text) {
+    return <Navigate to="/" />;
+  }
+
+  const handleComplete = async (results: {
+    typedText: string;
+    inputHistory: InputEvent[];
+  }) => {
+    if (!state.sessionId) {
+      setOutcome(scoreLocally(state.text, results.typedText, state.duration));
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { test, personal_best, achievements } = await apiService.submitTest(
+        state.sessionId,
+        results.typedText,
+        {
+          durationActual: state.duration,
+          inputHistory: results.inputHistory,
+        },
+      );
+
+      // DECIMAL columns arrive as strings
+      setOutcome({
+        wpm: Number(test.wpm),
+        rawWpm: Number(test.raw_wpm),
+        accuracy: Number(test.accuracy),
+        consistency: Number(test.consistency),
+        characters: test.characters,
+        series: test.wpm_series || [],
+        personalBest: personal_best,
+        achievements,
+      });
+    } catch (err: any) {
+      setError(err.response?.data?.error || "Failed to submit test");
+      setOutcome(scoreLocally(state.text, results.typedText, state.duration));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 to-slate-800">
+      <main className="max-w-6xl mx-auto px-4 py-20">
+        {error && (
+          <div className="mb-4 p-3 bg-red-500 bg-opacity-10 border border-red-500 rounded text-red-400 text-sm">
+            {error}
+          </div>
+        )}
+
+        {outcome ? (
+          <TestResults
+            {...outcome}
+            duration={state.duration}
+            difficulty={state.difficulty}
+            onRetry={() => navigate("/")}
+          />
+        ) : isSubmitting ? (
+          <p className="text-center text-slate-400">Submitting results...</p>
+        ) : (
+          <TypingTest
+            text={state.text}
+            duration={state.duration}
+            difficulty={state.difficulty}
+            onComplete={handleComplete}
+          />
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default TestPage;
@@ -1,4 +1,5 @@
-import axios, { AxiosInstance } from "axios";
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { useAuthStore } from "../context/authStore";
 
 /**
  * API Service
@@ -8,8 +9,25 @@ import axios, { AxiosInstance } from "axios";
 const API_BASE_URL =
   import.meta.env.VITE_API_URL || "http://localhost:5000/api";
 
+// Web Lock held while refreshing, shared by every tab of the app
+const REFRESH_LOCK = "auth-token-refresh";
+
+// A 401 from these means bad credentials, not an expired access token
+const NO_REFRESH_PATHS = [
+  "/auth/login",
+  "/auth/register",
+  "/auth/refresh",
+  "/auth/logout",
+];
+
+interface RetriableRequest extends InternalAxiosRequestConfig {
+  _retried?: boolean;
+}
+
 class APIService {
   private client: AxiosInstance;
+  private refreshPromise: Promise<string> | null = null;
+  private refreshListeners = new Set<(accessToken: string) => void>();
 
   constructor() {
     this.client = axios.create({
@@ -17,8 +35,12 @@ class APIService {
       timeout: 30000,
     });
 
-    // Add token to requests
-    this.client.interceptors.request.use((config) => {
+    // Add token to requests, waiting for a refresh in flight
+    this.client.interceptors.request.use(async (config) => {
+      if (this.refreshPromise && !NO_REFRESH_PATHS.includes(config.url || "")) {
+        await this.refreshPromise.catch(() => undefined);
+      }
+
       const token = localStorage.getItem("accessToken");
       if (token) {
         config.headers.Authorization = `Bearer ${token}`;
@@ -26,20 +48,125 @@ class APIService {
       return config;
     });
 
-    // Handle response errors
+    // Refresh once on 401 and retry; log out only if the refresh fails
     this.client.interceptors.response.use(
       (response) => response,
-      (error) => {
-        if (error.response?.status === 401) {
-          localStorage.removeItem("accessToken");
-          localStorage.removeItem("refreshToken");
-          window.location.href = "/login";
+      async (error) => {
+        const request = error.config as RetriableRequest | undefined;
+
+        if (
+          error.response?.status !== 401 ||
+          !request ||
+          request._retried ||
+          NO_REFRESH_PATHS.includes(request.url || "")
+        ) {
+          return Promise.reject(error);
         }
-        return Promise.reject(error);
+
+        request._retried = true;
+
+        // Another request may have refreshed since this one was sent
+        const current = localStorage.getItem("accessToken");
+        if (!current || request.headers.Authorization === `Bearer ${current}`) {
+          try {
+            await this.refreshAccessToken();
+          } catch (refreshError) {
+            // Network trouble is not a reason to sign out
+            if (!axios.isAxiosError(refreshError) || refreshError.response) {
+              this.endSession();
+            }
+            return Promise.reject(error);
+          }
+        }
+
+        return this.client(request);
       },
     );
   }
 
+  /**
+   * Get a new token pair with the stored refresh token
+   * Each refresh token works once, and presenting a used one revokes the
+   * session. Concurrent callers share one request, and tabs take turns
+   * under a Web Lock: a tab that finds the token already rotated by
+   * another tab uses the stored pair instead of refreshing again
+   *
+   * @returns The new access token
+   */
+  refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      const staleToken = localStorage.getItem("refreshToken");
+
+      this.refreshPromise = this.withRefreshLock(() =>
+        this.refreshTokenPair(staleToken),
+      )
+        .then((accessToken) => {
+          this.refreshListeners.forEach((listener) => listener(accessToken));
+          return accessToken;
+        })
+        .finally(() => {
+          this.refreshPromise = null;
+        });
+    }
+
+    return this.refreshPromise;
+  }
+
+  /**
+   * Run a refresh while holding the cross-tab lock, where supported
+   */
+  private async withRefreshLock(
+    refresh: () => Promise<string>,
+  ): Promise<string> {
+    if (!navigator.locks) return refresh();
+    return navigator.locks.request(REFRESH_LOCK, refresh);
+  }
+
+  /**
+   * Exchange the stored refresh token, unless it changed since staleToken
+   * was read, in which case another tab already refreshed
+   */
+  private async refreshTokenPair(staleToken: string | null): Promise<string> {
+    const refreshToken = localStorage.getItem("refreshToken");
+    const accessToken = localStorage.getItem("accessToken");
+
+    if (refreshToken && refreshToken !== staleToken && accessToken) {
+      return accessToken;
+    }
+    if (!refreshToken) {
+      throw new Error("No refresh token");
+    }
+
+    const response = await axios.post(`${API_BASE_URL}/auth/refresh`, {
+      refreshToken,
+    });
+    localStorage.setItem("accessToken", response.data.accessToken);
+    localStorage.setItem("refreshToken", response.data.refreshToken);
+    return response.data.accessToken;
+  }
+
+  /**
+   * Subscribe to access token refreshes
+   *
+   * @returns Unsubscribe function
+   */
+  onTokenRefresh(listener: (accessToken: string) => void): () => void {
+    this.refreshListeners.add(listener);
+    return () => {
+      this.refreshListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Drop the tokens and send the user to the login page
+   */
+  private endSession() {
+    localStorage.removeItem("accessToken");
+    localStorage.removeItem("refreshToken");
+    useAuthStore.getState().logout();
+    window.location.href = "/login";
+  }
+
   // Auth endpoints
   async register(
     username: string,
@@ -68,6 +195,33 @@ class APIService {
     return response.data;
   }
 
+  async logout() {
+    const refreshToken = localStorage.getItem("refreshToken");
+    try {
+      if (refreshToken) {
+        await this.client.post("/auth/logout", { refreshToken });
+      }
+    } finally {
+      localStorage.removeItem("accessToken");
+      localStorage.removeItem("refreshToken");
+    }
+  }
+
+  async getSessions() {
+    const response = await this.client.get("/auth/sessions");
+    return response.data;
+  }
+
+  async revokeSession(sessionId: string) {
+    const response = await this.client.delete(`/auth/sessions/${sessionId}`);
+    return response.data;
+  }
+
+  async revokeOtherSessions() {
+    const response = await this.client.delete("/auth/sessions");
+    return response.data;
+  }
+
   async getCurrentUser() {
     const response = await this.client.get("/auth/me");
     return response.data;
@@ -83,18 +237,32 @@ class APIService {
   }
 
   // Test endpoints
-  async submitTest(
-    originalText: string,
-    typedText: string,
-    duration: number,
-    difficulty: string,
-    options?: any,
-  ) {
+  async generateTest(params: {
+    mode?: string;
+    language?: string;
+    difficulty?: string;
+    testType?: string;
+    length?: number;
+  }) {
+    const response = await this.client.get("/tests/generate", { params });
+    return response.data;
+  }
+
+  async createTestSession(params: {
+    mode?: string;
+    language?: string;
+    difficulty?: string;
+    testType?: string;
+    length?: number;
+  }) {
+    const response = await this.client.post("/tests/sessions", params);
+    return response.data;
+  }
+
+  async submitTest(sessionId: string, typedText: string, options?: any) {
     const response = await this.client.post("/tests/submit", {
-      originalText,
+      sessionId,
       typedText,
-      duration,
-      difficulty,
       ...options,
     });
     return response.data;
@@ -115,22 +283,112 @@ class APIService {
     return response.data;
   }
 
+  async getStatisticsBreakdown(groupBy: string[]) {
+    const response = await this.client.get("/tests/statistics", {
+      params: { groupBy: groupBy.join(",") },
+    });
+    return response.data;
+  }
+
+  async getProgress(params: {
+    interval?: "day" | "week" | "month";
+    days?: number;
+    window?: number;
+    mode?: string;
+    duration?: number;
+    difficulty?: string;
+  }) {
+    const response = await this.client.get("/tests/progress", { params });
+    return response.data;
+  }
+
+  async getTest(testId: string) {
+    const response = await this.client.get(`/tests/${testId}`);
+    return response.data;
+  }
+
+  async getTestReplay(testId: string) {
+    const response = await this.client.get(`/tests/${testId}/replay`);
+    return response.data;
+  }
+
+  async getKeyAnalytics(from?: string, to?: string) {
+    const response = await this.client.get("/tests/analytics/keys", {
+      params: { from, to },
+    });
+    return response.data;
+  }
+
   async getBestTest() {
     const response = await this.client.get("/tests/best");
     return response.data;
   }
 
+  async getPersonalBests() {
+    const response = await this.client.get("/tests/personal-bests");
+    return response.data;
+  }
+
+  // User endpoints
+  async getUserAchievements(userId: string) {
+    const response = await this.client.get(`/users/${userId}/achievements`);
+    return response.data;
+  }
+
+  async getPreferences() {
+    const response = await this.client.get("/users/me/preferences");
+    return response.data;
+  }
+
+  async updatePreferences(updates: Record<string, unknown>) {
+    const response = await this.client.patch("/users/me/preferences", updates);
+    return response.data;
+  }
+
+  async getThemeGallery(limit?: number, offset?: number) {
+    const response = await this.client.get("/themes", {
+      params: { limit, offset },
+    });
+    return response.data;
+  }
+
   // Leaderboard endpoints
-  async getLeaderboard(period?: string, limit?: number) {
-    const response = await this.client.get("/leaderboard", {
-      params: { period, limit },
+  async getLeaderboard(params: {
+    period?: string;
+    mode?: string;
+    length?: number;
+    language?: string;
+    limit?: number;
+    offset?: number;
+  }) {
+    const response = await this.client.get("/leaderboard", { params });
+    return response.data;
+  }
+
+  async getLeaderboardAroundMe(params: {
+    period?: string;
+    mode?: string;
+    length?: number;
+    language?: string;
+    window?: number;
+  }) {
+    const response = await this.client.get("/leaderboard/around-me", {
+      params,
     });
     return response.data;
   }
 
-  async getUserRank(userId: string, period?: string) {
+  async getUserRank(
+    userId: string,
+    params: {
+      period?: string;
+      mode?: string;
+      length?: number;
+      language?: string;
+    },
+  ) {
     const response = await this.client.get(`/leaderboard/${userId}/rank`, {
-      params: { period },
+      params,
     });
     return response.data;
   }
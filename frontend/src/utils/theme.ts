@@ -0,0 +1,74 @@
+/**
+ * Theme Utilities
+ * Custom theme colors and shareable theme codes
+ */
+
+export const THEME_COLOR_KEYS = [
+  "background",
+  "text",
+  "caret",
+  "correct",
+  "error",
+  "accent",
+] as const;
+
+export type ThemeColorKey = (typeof THEME_COLOR_KEYS)[number];
+
+export type ThemeColors = Record<ThemeColorKey, string>;
+
+export interface CustomTheme {
+  name: string;
+  colors: ThemeColors;
+  shared: boolean;
+}
+
+// The built-in dark theme, as a starting point for custom ones
+export const DEFAULT_THEME_COLORS: ThemeColors = {
+  background: "#1e293b",
+  text: "#cbd5e1",
+  caret: "#3b82f6",
+  correct: "#4ade80",
+  error: "#f87171",
+  accent: "#e2b714",
+};
+
+/**
+ * Check for a six-digit hex color, e.g. '#e2b714'
+ */
+export function isHexColor(value: string): boolean {
+  return /^#[0-9a-f]{6}$/i.test(value);
+}
+
+/**
+ * Encode theme colors as a short shareable code
+ * The six colors are packed into 18 bytes and base64url encoded (24 chars)
+ */
+export function encodeThemeCode(colors: ThemeColors): string {
+  const hex = THEME_COLOR_KEYS.map((key) => colors[key].slice(1)).join("");
+  const bytes = hex.match(/../g)!.map((pair) => parseInt(pair, 16));
+
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_");
+}
+
+/**
+ * Decode a theme code made by encodeThemeCode
+ *
+ * @returns The colors, or null when the code is malformed
+ */
+export function decodeThemeCode(code: string): ThemeColors | null {
+  const trimmed = code.trim();
+  if (!/^[A-Za-z0-9_-]{24}$/.test(trimmed)) return null;
+
+  const binary = atob(trimmed.replace(/-/g, "+").replace(/_/g, "/"));
+  const hex = Array.from(binary, (c) =>
+    c.charCodeAt(0).toString(16).padStart(2, "0"),
+  ).join("");
+
+  const colors = {} as ThemeColors;
+  THEME_COLOR_KEYS.forEach((key, i) => {
+    colors[key] = `#${hex.slice(i * 6, i * 6 + 6)}`;
+  });
+  return colors;
+}
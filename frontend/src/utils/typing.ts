@@ -27,30 +27,154 @@ export function calculateAccuracy(correct: number, total: number): number {
   );
 }
 
+export type CharState =
+  "correct" | "incorrect" | "extra" | "missed" | "pending";
+
+export interface ClassifiedChar {
+  char: string; // prompt character, or the typed character for extras
+  state: CharState;
+}
+
+export interface ClassifiedWord {
+  expected: string;
+  typed: string;
+  chars: ClassifiedChar[];
+}
+
 /**
- * Classify each character as correct, incorrect, extra, or missed
+ * Classify typed input word by word against the prompt
+ * A skipped or extra character only affects the word it happened in
+ */
+export function classifyWords(
+  original: string,
+  typed: string,
+): ClassifiedWord[] {
+  const expectedWords = original.split(" ");
+  const typedWords = typed.split(" ");
+  const currentIndex = typedWords.length - 1;
+  const words: ClassifiedWord[] = [];
+
+  const wordCount = Math.max(expectedWords.length, typedWords.length);
+  for (let i = 0; i < wordCount; i++) {
+    const expected = expectedWords[i] ?? "";
+    const typedWord = typedWords[i] ?? "";
+    const completed = i < currentIndex;
+    const chars: ClassifiedChar[] = [];
+
+    const maxLen = Math.max(expected.length, typedWord.length);
+    for (let j = 0; j < maxLen; j++) {
+      if (j >= expected.length) {
+        chars.push({ char: typedWord[j], state: "extra" });
+      } else if (j >= typedWord.length) {
+        chars.push({
+          char: expected[j],
+          state: completed ? "missed" : "pending",
+        });
+      } else {
+        chars.push({
+          char: expected[j],
+          state: typedWord[j] === expected[j] ? "correct" : "incorrect",
+        });
+      }
+    }
+
+    words.push({ expected, typed: typedWord, chars });
+  }
+
+  return words;
+}
+
+/**
+ * Count correct, incorrect, extra, and missed characters (word-aligned)
  */
 export function classifyCharacters(original: string, typed: string) {
-  let correct = 0;
-  let incorrect = 0;
-  let extra = 0;
-  let missed = 0;
-
-  const maxLen = Math.max(original.length, typed.length);
-
-  for (let i = 0; i < maxLen; i++) {
-    if (original[i] === undefined) {
-      extra++;
-    } else if (typed[i] === undefined) {
-      missed++;
-    } else if (original[i] === typed[i]) {
-      correct++;
-    } else {
-      incorrect++;
+  const counts = { correct: 0, incorrect: 0, extra: 0, missed: 0 };
+
+  for (const word of classifyWords(original, typed)) {
+    for (const { state } of word.chars) {
+      if (state !== "pending") counts[state]++;
     }
   }
 
-  return { correct, incorrect, extra, missed };
+  // Word separators
+  const spacesTyped = typed.split(" ").length - 1;
+  const spacesInPrompt = original.split(" ").length - 1;
+  const correctSpaces = Math.min(spacesTyped, spacesInPrompt);
+  counts.correct += correctSpaces;
+  counts.extra += spacesTyped - correctSpaces;
+
+  return counts;
+}
+
+/**
+ * Change to the input that is not a single keystroke at the end
+ * (word deletes, edits mid-text, auto-correct, IME composition, paste)
+ */
+export interface TextEdit {
+  at: number; // index where the change starts
+  remove: number; // characters removed from there
+  insert: string; // characters put in their place
+}
+
+/**
+ * Keystroke event from a test replay
+ */
+export interface KeystrokeEvent {
+  time: number; // milliseconds since the first keystroke
+  char: string; // typed character, "Backspace" or "Edit"
+  edit?: TextEdit;
+}
+
+/**
+ * Describe how one input value turned into the next
+ * The unchanged start and end are left out of the edit
+ */
+export function diffText(previous: string, next: string): TextEdit {
+  let start = 0;
+  while (
+    start < previous.length &&
+    start < next.length &&
+    previous[start] === next[start]
+  ) {
+    start++;
+  }
+
+  let end = 0;
+  while (
+    end < previous.length - start &&
+    end < next.length - start &&
+    previous[previous.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return {
+    at: start,
+    remove: previous.length - start - end,
+    insert: next.slice(start, next.length - end),
+  };
+}
+
+/**
+ * Rebuild the typed text at a point in a keystroke stream
+ */
+export function replayTypedText(
+  events: KeystrokeEvent[],
+  untilTime: number = Infinity,
+): string {
+  let text = "";
+  for (const event of events) {
+    if (event.time > untilTime) break;
+    if (event.char === "Backspace") {
+      text = text.slice(0, -1);
+    } else if (event.char === "Edit" && event.edit) {
+      const { at, remove, insert } = event.edit;
+      text = text.slice(0, at) + insert + text.slice(at + remove);
+    } else if (event.char.length === 1) {
+      text += event.char;
+    }
+  }
+  return text;
 }
 
 /**
@@ -2,11 +2,8 @@ module.exports = {
   content: ["./index.html", "./src/**/*.{js,ts,jsx,tsx}"],
   theme: {
     extend: {
-      colors: {
-        primary: "#e2b714",
-        secondary: "#2d2d2d",
-        accent: "#646669",
-      },
+      // Shared with components that need raw color values (e.g. charts)
+      colors: require("./src/styles/themeColors.json"),
       fontFamily: {
         mono: ["JetBrains Mono", "Courier New", "monospace"],
       },